@@ -6,9 +6,10 @@ import { FocusManager } from './FocusManager';
  * It provides a standard constructor and helper methods for rendering HTML content
  * into a `UILayer`. This class is intended to be extended by concrete UI
  * implementations (e.g., MainMenuUI, GameHUD).
+ * @typeParam TFocusManager The manager type, so typed state and event maps carry through to `this.focusManager`.
  */
-export abstract class BaseUI {
-    constructor(protected layer: UILayer, protected focusManager: FocusManager) {}
+export abstract class BaseUI<TFocusManager extends FocusManager<any, any> = FocusManager> {
+    constructor(protected layer: UILayer, protected focusManager: TFocusManager) {}
 
     /**
      * A helper to generate common HTML boilerplate, like style and link tags.
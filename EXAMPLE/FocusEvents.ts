@@ -1,3 +1,5 @@
+import type { FocusManager } from '../FocusManager';
+
 export const FocusEvents = {
     // Lobby
     LOBBY_JOIN_GAME: 'lobby:joinGame',
@@ -21,4 +23,31 @@ export const FocusEvents = {
     GLOBAL_OVERLAY_SHOW: 'global-overlay:show',
     GLOBAL_OVERLAY_HIDE: 'global-overlay:hide',
     GLOBAL_OVERLAY_TOGGLE: 'global-overlay:toggle',
-} as const;
\ No newline at end of file
+} as const;
+
+/** The payload carried by each event. Events without a payload map to `undefined`. */
+export type FocusEventPayloads = {
+    [FocusEvents.LOBBY_JOIN_GAME]: { roomName: string };
+    [FocusEvents.GAME_PAUSE]: undefined;
+    [FocusEvents.GAME_OVER]: { score: number };
+    [FocusEvents.PAUSE_RESUME]: undefined;
+    [FocusEvents.PAUSE_OPEN_SETTINGS]: undefined;
+    [FocusEvents.PAUSE_QUIT_TO_LOBBY]: undefined;
+    [FocusEvents.SETTINGS_BACK]: undefined;
+    [FocusEvents.GAMEOVER_BACK_TO_LOBBY]: undefined;
+    [FocusEvents.GLOBAL_OVERLAY_SHOW]: undefined;
+    [FocusEvents.GLOBAL_OVERLAY_HIDE]: undefined;
+    [FocusEvents.GLOBAL_OVERLAY_TOGGLE]: undefined;
+};
+
+/** The payload each state of the example receives on entry. */
+export type FocusTestStates = {
+    'lobby': undefined;
+    'game': { roomName: string };
+    'pause-menu': undefined;
+    'settings-menu': undefined;
+    'game-over': { score: number };
+};
+
+/** The FocusManager used throughout the example, with typed states and events. */
+export type FocusTestManager = FocusManager<FocusTestStates, FocusEventPayloads>;
@@ -11,11 +11,16 @@ import { GlobalOverlayUI } from './GlobalOverlayUI';
 import { UILayer } from '../UILayerManager';
 import { GameChatUI } from './GameChatUI';
 import { GlobalHUD } from './GlobalHUD';
-import { FocusEvents } from './FocusEvents';
+import { FocusEvents, FocusEventPayloads, FocusTestManager, FocusTestStates } from './FocusEvents';
+
+// Transitions requested from listeners are not awaited. Under the 'drop' or 'replace' policy they can
+// be cancelled, e.g. when Escape is pressed again during the fade, so log those instead of leaving them unhandled.
+const logIncomplete = (e: unknown) => FMLog.log('warn', 'Transition did not complete.', e);
 
 @RE.registerComponent
 export default class FocusTestComponent extends RE.Component {
-  private focusManager: FocusManager;
+  private focusManager: FocusTestManager;
+  private debuggerInstance: FocusDebugger | null = null;
 
   start() {
     // =================================================================================
@@ -31,7 +36,9 @@ export default class FocusTestComponent extends RE.Component {
 
     FMLog.log('state', "FocusTestComponent started. Setting up states...");    
 
-    this.focusManager = new FocusManager();
+    // The state and event maps make `switch('game', { roomName })` and
+    // `emit(FocusEvents.GAME_OVER, { score })` type-checked.
+    this.focusManager = new FocusManager<FocusTestStates, FocusEventPayloads>();
 
     // =================================================================================
     // 1. GLOBAL & PERSISTENT UI
@@ -71,30 +78,35 @@ export default class FocusTestComponent extends RE.Component {
         visible: ['main-menu-layer'],
       })
       .withTransition('fade', 700) // Slower transition for initial load
+      .withTransitionFrom('pause-menu', 'wipe', 400) // Quitting from the pause menu wipes instead of fading
       .onEnter((payload, ui) => {
         // Pass the FocusManager instance to the UI controller.
         new MainMenuUI(ui.find('main-menu-layer'), this.focusManager).render();
       })
-      .onEvent(FocusEvents.LOBBY_JOIN_GAME, (fm, payload) => fm.switch('game', payload));
+      .allowTo('game') // Declares the flow; see `strictTransitions` and `exportGraph()`.
+      .onEvent(FocusEvents.LOBBY_JOIN_GAME, (fm, payload) => fm.switch('game', payload).catch(logIncomplete));
 
     const gameState = this.focusManager.create('game')
       .ui({ 
         visible: ['game-layer', 'game-chat-layer', 'global-hud-layer'],
       })
       .onEnter((payload, ui) => {
-        // The GameUI now expects a payload (e.g., from the lobby)
+        // The GameUI now expects a payload (e.g., from the lobby).
+        // Its clock runs on `fm.timers`, so it freezes while the pause menu is pushed on top.
         const gameController = new GameUI(ui.find('game-layer'), this.focusManager);
         gameController.render(payload);
 
         // Also render the chat UI on its own layer
         new GameChatUI(ui.find('game-chat-layer'), this.focusManager).render();
       })
-      .onEvent(FocusEvents.GAME_PAUSE, (fm) => fm.push('pause-menu'))
-      .onEvent(FocusEvents.GAME_OVER, (fm, payload) => fm.switch('game-over', payload))
+      .allowTo('game-over')
+      .allowPushOf('pause-menu')
+      .onEvent(FocusEvents.GAME_PAUSE, (fm) => fm.push('pause-menu').catch(logIncomplete))
+      .onEvent(FocusEvents.GAME_OVER, (fm, payload) => fm.switch('game-over', payload).catch(logIncomplete))
       // Add a hotkey to the game state. Pressing 'Escape' will push the pause menu.
       .onKey('keydown', 'Escape', (fm, event) => {
         event.preventDefault();
-        fm.push('pause-menu');
+        fm.push('pause-menu').catch(logIncomplete);
       });
 
     // =================================================================================
@@ -112,6 +124,7 @@ export default class FocusTestComponent extends RE.Component {
     const pauseMenuState = this.focusManager.create('pause-menu')
       .extends('base-menu') // Inherit from base-menu
       .ensureLayer('pause-layer', 20) // Dynamically create layer on enter if it doesn't exist
+      .asOverlay({ dim: true, inert: true }) // Keep the game visible, dimmed and non-interactive, behind the menu
       .ui({ 
         visible: ['pause-layer', 'global-hud-layer'],
       })
@@ -119,13 +132,15 @@ export default class FocusTestComponent extends RE.Component {
         // The 'pause-layer' is guaranteed to exist by the .ensureLayer() call above.
         new PauseUI(ui.find('pause-layer'), this.focusManager).render();
       })
-      .onEvent(FocusEvents.PAUSE_RESUME, (fm) => fm.pop())
-      .onEvent(FocusEvents.PAUSE_OPEN_SETTINGS, (fm) => fm.push('settings-menu'))
-      .onEvent(FocusEvents.PAUSE_QUIT_TO_LOBBY, (fm) => fm.switch('lobby'))
+      .allowTo('lobby')
+      .allowPushOf('settings-menu')
+      .onEvent(FocusEvents.PAUSE_RESUME, (fm) => fm.pop().catch(logIncomplete))
+      .onEvent(FocusEvents.PAUSE_OPEN_SETTINGS, (fm) => fm.push('settings-menu').catch(logIncomplete))
+      .onEvent(FocusEvents.PAUSE_QUIT_TO_LOBBY, (fm) => fm.switch('lobby').catch(logIncomplete))
       // Add a hotkey to the pause menu. Pressing 'Escape' will pop the state.
       .onKey('keydown', 'Escape', (fm, event) => {
         event.preventDefault(); // Prevent any default browser behavior for the Escape key.
-        fm.pop();
+        fm.pop().catch(logIncomplete);
       });
 
     // =================================================================================
@@ -163,7 +178,7 @@ export default class FocusTestComponent extends RE.Component {
 
         new SettingsUI(settingsLayer, this.focusManager).render();
       })
-      .onEvent(FocusEvents.SETTINGS_BACK, (fm) => fm.pop());
+      .onEvent(FocusEvents.SETTINGS_BACK, (fm) => fm.pop().catch(logIncomplete));
 
     // =================================================================================
     // 5. FINAL STATES & CUSTOM TRANSITIONS
@@ -180,13 +195,14 @@ export default class FocusTestComponent extends RE.Component {
         // The payload from the .switch() call is passed to the render method.
         uiController.render(payload);
       })
-      .onEvent(FocusEvents.GAMEOVER_BACK_TO_LOBBY, (fm) => fm.switch('lobby'));
+      .allowTo('lobby')
+      .after(15000, 'lobby') // Return to the lobby on its own if the player walks away.
+      .onEvent(FocusEvents.GAMEOVER_BACK_TO_LOBBY, (fm) => fm.switch('lobby').catch(logIncomplete));
 
     // =================================================================================
     // 6. REGISTRATION & INITIALIZATION
     // =================================================================================
     // All states must be registered with the manager.
-    // Note: Base states must be registered before the states that extend them.
     this.focusManager.register(lobbyState);
     this.focusManager.register(gameState);
     this.focusManager.register(baseMenuState);
@@ -195,12 +211,20 @@ export default class FocusTestComponent extends RE.Component {
     this.focusManager.register(gameOverState);
 
     // Set the initial state of the application.
-    this.focusManager.switch('lobby');
+    this.focusManager.switch('lobby').catch(logIncomplete);
 
     // (Optional) Initialize the debugger for real-time state inspection.
     if (enableDebugger) {
-      const debuggerInstance = new FocusDebugger(this.focusManager);
-      debuggerInstance.init();
+      this.debuggerInstance = new FocusDebugger(this.focusManager);
+      this.debuggerInstance.init();
     }
   }
+
+  onBeforeRemoved() {
+    // Tear everything down so that restarting play mode in the editor boots from scratch
+    // instead of stacking a second set of layers and listeners on top of the first.
+    this.debuggerInstance?.dispose();
+    const uiManager = this.focusManager.uiManager;
+    this.focusManager.dispose().finally(() => uiManager.dispose());
+  }
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { BaseUI } from '../BaseUI';
+import type { FocusTestManager } from './FocusEvents';
+import type { FocusTimer } from '../utils/FocusTimers';
 import { commonStyles, fontUrl } from './FocusTestUIStyles';
 
 const MOCK_PLAYERS = ["Raptor_7", "Nova_Spectre", "Cmdr_Helix", "Void_Walker"];
@@ -12,14 +14,12 @@ const MOCK_MESSAGES = [
     "gg",
 ];
 
-export class GameChatUI extends BaseUI {
-    private mockMessageTimer: number | null = null;
+export class GameChatUI extends BaseUI<FocusTestManager> {
+    private mockMessageTimer: FocusTimer | null = null;
 
     private cleanup() {
-        if (this.mockMessageTimer) {
-            clearInterval(this.mockMessageTimer);
-            this.mockMessageTimer = null;
-        }
+        this.mockMessageTimer?.cancel();
+        this.mockMessageTimer = null;
     }
 
     private addMessage(sender: string, text: string, isSelf = false) {
@@ -66,14 +66,12 @@ export class GameChatUI extends BaseUI {
             if (e.key === 'Enter') sendMessage();
         });
 
-        // Simulate other players chatting
-        this.mockMessageTimer = window.setInterval(() => {
-            if (this.focusManager.is('game')) {
-                const randomPlayer = MOCK_PLAYERS[Math.floor(Math.random() * MOCK_PLAYERS.length)];
-                const randomMessage = MOCK_MESSAGES[Math.floor(Math.random() * MOCK_MESSAGES.length)];
-                this.addMessage(randomPlayer, randomMessage);
-            }
-        }, 5000);
+        // Simulate other players chatting. The timer only runs while 'game' is on top of the stack.
+        this.mockMessageTimer = this.focusManager.timers.every(5000, () => {
+            const randomPlayer = MOCK_PLAYERS[Math.floor(Math.random() * MOCK_PLAYERS.length)];
+            const randomMessage = MOCK_MESSAGES[Math.floor(Math.random() * MOCK_MESSAGES.length)];
+            this.addMessage(randomPlayer, randomMessage);
+        });
 
         this.addMessage("System", "Welcome to the game! Chat is now active.", false);
         this.layer.addCleanupTask(() => this.cleanup());
@@ -1,10 +1,10 @@
 import { BaseUI } from '../BaseUI';
-import { FocusEvents } from './FocusEvents';
+import { FocusEvents, FocusTestManager } from './FocusEvents';
 import { commonStyles, fontUrl } from './FocusTestUIStyles';
 
-export class GameOverUI extends BaseUI {
+export class GameOverUI extends BaseUI<FocusTestManager> {
 
-    public render(payload: any) {
+    public render(payload?: { score: number }) {
         const score = payload ? payload.score : 'N/A';
 
         this.layer.html(`
@@ -1,12 +1,13 @@
 import { BaseUI } from '../BaseUI';
-import { FocusEvents } from './FocusEvents';
+import type { FocusTimer } from '../utils/FocusTimers';
+import { FocusEvents, FocusTestManager } from './FocusEvents';
 import { commonStyles, fontUrl } from './FocusTestUIStyles';
 
-export class GameUI extends BaseUI {
+export class GameUI extends BaseUI<FocusTestManager> {
     // --- Game State ---
     private score = 0;
     private timeLeft = 60; // Longer game session for clicker-style
-    private gameTimerId: number | null = null;
+    private gameTimer: FocusTimer | null = null;
 
     // --- Clicker Game Properties ---
     private clickPower = 1;
@@ -17,10 +18,28 @@ export class GameUI extends BaseUI {
     private autoMinerCost = 50;
 
     private cleanup() {
-        if (this.gameTimerId) {
-            clearInterval(this.gameTimerId);
-            this.gameTimerId = null;
-        }
+        this.gameTimer?.cancel();
+        this.gameTimer = null;
+    }
+
+    private startTimer() {
+        // Scoped to the 'game' state: it freezes while a menu is pushed on top and stops when the state exits.
+        this.gameTimer = this.focusManager.timers.every(1000, () => {
+            // Auto-generation happens every tick
+            if (this.autoMiners > 0) {
+                const generated = this.autoMiners * this.autoMinerPower;
+                this.score += generated;
+            }
+
+            this.timeLeft--;
+            this.updateUI();
+
+            if (this.timeLeft <= 0) {
+                this.cleanup();
+                // Pass the final score (rounded down) to the game over state
+                this.focusManager.events.emit(FocusEvents.GAME_OVER, { score: Math.floor(this.score) });
+            }
+        });
     }
 
     private showClickEffect(event: MouseEvent) {
@@ -79,7 +98,7 @@ export class GameUI extends BaseUI {
         }
     }
 
-    public render(payload: any) {
+    public render(payload?: { roomName: string }) {
         const roomName = payload?.roomName || 'the Game';
 
         const localStyles = `
@@ -249,21 +268,6 @@ export class GameUI extends BaseUI {
         this.updateUI();
 
         // Start the main game loop
-        this.gameTimerId = window.setInterval(() => {
-            // Auto-generation happens every tick
-            if (this.autoMiners > 0) {
-                const generated = this.autoMiners * this.autoMinerPower;
-                this.score += generated;
-            }
-
-            this.timeLeft--;
-            this.updateUI();
-
-            if (this.timeLeft <= 0) {
-                this.cleanup();
-                // Pass the final score (rounded down) to the game over state
-                this.focusManager.events.emit(FocusEvents.GAME_OVER, { score: Math.floor(this.score) });
-            }
-        }, 1000);
+        this.startTimer();
     }
 }
\ No newline at end of file
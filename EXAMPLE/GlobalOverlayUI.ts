@@ -1,11 +1,10 @@
 import { UILayer } from '../UILayerManager';
-import { FocusManager } from '../FocusManager';
 import { BaseUI } from '../BaseUI';
-import { FocusEvents } from './FocusEvents';
+import { FocusEvents, FocusTestManager } from './FocusEvents';
 import { commonStyles, fontUrl } from './FocusTestUIStyles';
 
-export class GlobalOverlayUI extends BaseUI {
-    constructor(layer: UILayer, focusManager: FocusManager) {
+export class GlobalOverlayUI extends BaseUI<FocusTestManager> {
+    constructor(layer: UILayer, focusManager: FocusTestManager) {
         super(layer, focusManager);
         // Listen for events to control visibility. This decouples the overlay
         // from whatever component wants to show it.
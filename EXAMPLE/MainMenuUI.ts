@@ -1,8 +1,8 @@
 import { BaseUI } from '../BaseUI';
-import { FocusEvents } from './FocusEvents';
+import { FocusEvents, FocusTestManager } from './FocusEvents';
 import { commonStyles, fontUrl } from './FocusTestUIStyles';
 
-export class MainMenuUI extends BaseUI {
+export class MainMenuUI extends BaseUI<FocusTestManager> {
 
     public render() {
         const rooms = [
@@ -53,6 +53,7 @@ export class MainMenuUI extends BaseUI {
 
         this.layer.on('click', '.join-btn', (e, target) => {
             const roomName = target.dataset.roomName;
+            if (!roomName) return;
             // Emit an event on the FocusManager's event bus.
             this.focusManager.events.emit(FocusEvents.LOBBY_JOIN_GAME, { roomName });
         });
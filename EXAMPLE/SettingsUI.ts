@@ -1,8 +1,8 @@
 import { BaseUI } from '../BaseUI';
-import { FocusEvents } from './FocusEvents';
+import { FocusEvents, FocusTestManager } from './FocusEvents';
 import { commonStyles, fontUrl } from './FocusTestUIStyles';
 
-export class SettingsUI extends BaseUI {
+export class SettingsUI extends BaseUI<FocusTestManager> {
 
     public render() {
         this.layer.html(`
@@ -1,38 +1,377 @@
 import { UILayerManager, UILayer } from "./UILayerManager";
-import { FocusState, FocusStateConfig } from "./FocusState";
+import { FocusState, FocusStateConfig, FocusStateMap, FocusStateName, FocusHookError, FocusHookErrorHandler, FocusHookName, FocusListenerStatus } from "./FocusState";
 import { FMLog } from "./utils/FocusLogger";
-import { FocusEventBus } from "./utils/FocusEventBus";
+import { FocusEventBus, FocusEventMap, FocusPayloadArg } from "./utils/FocusEventBus";
 import { FocusArt } from "./utils/FocusArt";
+import { FocusStorageAdapter, FocusLocalStorage } from "./utils/FocusStorage";
+import { FocusConfigLoader, FocusConfigDocument, FocusConfigHandler } from "./utils/FocusConfigLoader";
+import { FocusTimerScheduler } from "./utils/FocusTimers";
+import { FocusMiddleware, FocusMiddlewareContext, FocusPlugin } from "./utils/FocusMiddleware";
+import { FocusLoadingPhase, FocusLoadingView, noProgress } from "./utils/FocusLoading";
+import { createTransitionSurface, dissolveEffect, fadeEffect, flashEffect, irisEffect, pixelateEffect, slideEffect, wipeEffect, withParams } from "./utils/FocusTransitions";
 import { Device } from './utils/Device';
 import * as RE from 'rogue-engine';
 
-export interface FocusTransitionEffect {
+/**
+ * A screen transition, registered with `FocusManager.registerTransitionEffect()`.
+ * @typeParam P The parameters the effect accepts, e.g. `{ color?: string }`.
+ */
+export interface FocusTransitionEffect<P = any> {
+    /** The parameters used where a transition doesn't set them. */
+    defaults?: P;
     /** Called before the old state exits and new state enters. Should obscure the screen. */
-    onExit(fromState: string | null, toState: string, durationMs: number): Promise<void>;
+    onExit(fromState: string | null, toState: string, durationMs: number, context: FocusTransitionContext<P>): Promise<void>;
     /** Called after the new state has entered. Should reveal the screen. */
-    onEnter(currentState: string, previousState: string | null, durationMs: number): Promise<void>;    
+    onEnter(currentState: string, previousState: string | null, durationMs: number, context: FocusTransitionContext<P>): Promise<void>;    
+}
+
+/** Describes the transition a `FocusTransitionEffect` is playing for. */
+export interface FocusTransitionContext<P = any> {
+    kind: FocusTransitionKind;
+    /** The state being left: the previous top of the stack, or the popped state. */
+    from: string | null;
+    /** The state being entered: the new top of the stack, or the resumed state. */
+    to: string;
+    /** The payload the new state is entered with. Undefined for `pop()`. */
+    payload?: any;
+    durationMs: number;
+    /** The region the transition runs in. */
+    region: string;
+    /** The effect's `defaults`, overridden by the parameters given with `withTransition()` or the call's `transitionParams`. */
+    params: P;
+    /**
+     * A full-screen, transparent element on the transition layer for the effect to draw on. It is
+     * attached before `onExit()` and removed after `onEnter()`, so styles don't need to be reset.
+     */
+    surface: HTMLElement;
+}
+
+/** Describes a transition and the step of it a lifecycle event on `FocusManager.events` reports. */
+export interface FocusLifecycleContext {
+    kind: FocusTransitionKind;
+    /** The state being left: the previous top of the stack, or the popped state. */
+    from: string | null;
+    /** The state being entered: the new top of the stack, or the resumed state. */
+    to: string;
+    /** The payload the new state is entered with. Undefined for `pop()`. */
+    payload?: any;
+    /** The region the transition runs in. */
+    region: string;
+    /** The state the event is about: the state exited, entered, paused or resumed, and `to` for the transition events. */
+    state: string;
+    /** The stack when the event was emitted, with the active state at the end. */
+    stack: readonly string[];
+    /** When the transition started, in `performance.now()` milliseconds. */
+    startedAt: number;
+    /** Milliseconds since the transition started. */
+    elapsedMs: number;
+    /** The name of the transition effect played, or null if none is. */
+    effect: string | null;
+    /** The duration of the effect in milliseconds. 0 if none is played. */
+    effectDurationMs: number;
+}
+
+/**
+ * The lifecycle events every `FocusManager` emits on its `events` bus while a transition runs, in order:
+ * `focus:beforeTransition`, then `focus:exit`/`focus:pause` for states being left or covered,
+ * `focus:enter`/`focus:resume` for states becoming active, and `focus:afterTransition` once the
+ * transition, including its effect, has finished. A failed transition reports to `onTransitionError()` instead.
+ */
+export type FocusLifecycleEvents = {
+    'focus:beforeTransition': FocusLifecycleContext;
+    'focus:exit': FocusLifecycleContext;
+    'focus:enter': FocusLifecycleContext;
+    'focus:pause': FocusLifecycleContext;
+    'focus:resume': FocusLifecycleContext;
+    'focus:afterTransition': FocusLifecycleContext;
+};
+
+type SwitchListener = (newState: string, oldState: string | null, region: string) => void;
+
+/** The name of the region driven by a root `FocusManager`. */
+export const MAIN_REGION = 'main';
+
+/** The kind of stack operation a transition performs. */
+export type FocusTransitionKind = 'switch' | 'push' | 'pop' | 'replace';
+
+/**
+ * Decides what happens when a transition is requested while another one is still running.
+ * - `queue`: Wait for every earlier transition to finish, then run.
+ * - `drop`: Reject the new request immediately if the manager is busy.
+ * - `replace`: Cancel every transition that has not started yet and run this one next.
+ */
+export type FocusTransitionPolicy = 'queue' | 'drop' | 'replace';
+
+/**
+ * Decides what `push()` does with a state that is already on the stack, below the top.
+ * - `allow`: Push another instance of it. (Default)
+ * - `reject`: Reject with a `FocusDuplicateStateError`.
+ * - `bringToTop`: Move the existing instance to the top. It is resumed, not re-entered, and keeps its payload.
+ */
+export type FocusDuplicatePolicy = 'allow' | 'reject' | 'bringToTop';
+
+/** Per-call options accepted by `switch()`, `push()` and `pop()`. */
+export interface FocusTransitionOptions {
+    /** Overrides the manager's `transitionPolicy` for this call. */
+    policy?: FocusTransitionPolicy;
+    /** The transition effect to play for this call, overriding edge rules and state defaults. 'none' plays no effect. */
+    transition?: string;
+    /** Parameters for the effect, e.g. `{ origin: button }` for an iris. They override those given with `withTransition()`. */
+    transitionParams?: Record<string, any>;
+    /** The effect duration in milliseconds for this call. */
+    duration?: number;
+    /** If true, no transition effect is played for this call. */
+    skipTransition?: boolean;
+    /** Overrides the manager's `duplicatePolicy` for this call. Only used by `push()`. */
+    duplicates?: FocusDuplicatePolicy;
+}
+
+/** The payload and options arguments of `switch()` and `push()`. The payload may be omitted when its type allows `undefined`. */
+type TransitionArgs<P> = [...FocusPayloadArg<P>, FocusTransitionOptions?];
+
+/** A read-only description of a transition waiting in the queue. */
+export interface FocusPendingTransition {
+    kind: FocusTransitionKind | 'back' | 'forward' | 'restore' | 'clear' | 'hotSwap';
+    /** The target state name, or null if it is only known once the transition runs, as for `pop()`. */
+    name: string | null;
+    payload?: any;
+}
+
+/** A recorded step in the navigation history. */
+export interface FocusHistoryEntry {
+    kind: 'switch' | 'push';
+    name: string;
+    payload?: any;
+}
+
+/**
+ * A JSON-serializable description of a manager's stack and navigation history,
+ * created by `FocusManager.snapshot()` and consumed by `FocusManager.restore()`.
+ */
+export interface FocusSnapshot {
+    version: number;
+    /** The region the snapshot was taken from. */
+    region: string;
+    /** The stack from bottom to top, with each state's serialized payload. */
+    stack: { name: string, payload?: any }[];
+    history: FocusHistoryEntry[];
+    historyIndex: number;
+}
+
+/** Options for `FocusManager.persist()`. */
+export interface FocusPersistenceOptions {
+    /** The storage key. Defaults to `focus-state:<region>`. */
+    key?: string;
+    /** Where snapshots are saved. Defaults to `localStorage`. */
+    storage?: FocusStorageAdapter;
+}
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * The error a transition promise is rejected with when the transition is dropped
+ * or replaced before it got to run.
+ */
+export class FocusTransitionCancelledError extends Error {
+    constructor(public readonly transition: FocusPendingTransition, reason: string) {
+        super(`Transition '${transition.kind}${transition.name ? ` ${transition.name}` : ''}' cancelled: ${reason}`);
+        this.name = 'FocusTransitionCancelledError';
+    }
+}
+
+/**
+ * The error a transition promise is rejected with when `strictTransitions` is enabled and
+ * the current state did not declare the transition with `allowTo()` or `allowPushOf()`.
+ */
+export class FocusTransitionNotAllowedError extends Error {
+    constructor(public readonly kind: 'switch' | 'push', public readonly from: string, public readonly to: string, public readonly region: string) {
+        super(`Transition '${kind}' from '${from}' to '${to}' in region '${region}' is not declared. Add .${kind === 'switch' ? 'allowTo' : 'allowPushOf'}('${to}') to state '${from}'.`);
+        this.name = 'FocusTransitionNotAllowedError';
+    }
+}
+
+/** The error a `push()` is rejected with when the state is already on the stack and the duplicate policy is `reject`. */
+export class FocusDuplicateStateError extends Error {
+    constructor(public readonly state: string, public readonly region: string) {
+        super(`State '${state}' is already on the stack of region '${region}'.`);
+        this.name = 'FocusDuplicateStateError';
+    }
+}
+
+/**
+ * How the active state is updated when it is registered again, e.g. during hot-reload.
+ * - `reenter`: Exit it with its old hooks, then enter it with the new ones and the same payload. (Default)
+ * - `patch`: Keep it running and only swap its event/key listeners and visible layers. Its old `onExit`
+ *   hooks never run; the new ones run when it exits.
+ */
+export type FocusHotSwapMode = 'reenter' | 'patch';
+
+/** The formats `FocusManager.exportGraph()` can produce. */
+export type FocusGraphFormat = 'mermaid' | 'dot';
+
+/** Describes a transition that was vetoed by a `canEnter` or `canExit` guard, or aborted by a middleware. */
+export interface FocusTransitionBlockedInfo {
+    kind: FocusTransitionKind;
+    from: string | null;
+    to: string;
+    /** The state whose guard vetoed the transition, or the name of the middleware that aborted it. */
+    blockedBy: string;
+    /** The region whose transition was blocked. */
+    region: string;
+    guard: 'canEnter' | 'canExit' | 'middleware';
+    payload?: any;
+    /** Set if the guard threw instead of returning false. */
+    error?: unknown;
+}
+
+type TransitionBlockedListener = (info: FocusTransitionBlockedInfo) => void;
+
+/**
+ * How a manager recovers when a lifecycle hook or transition effect throws during a transition.
+ * - `rollback`: Restore the stack, payloads and history from before the transition. (Default)
+ * - `errorState`: Switch to `onErrorState`, passing a `FocusTransitionErrorInfo` as the payload.
+ * - `continue`: Report the error and carry on with the remaining hooks as if it had not happened.
+ */
+export type FocusErrorRecovery = 'rollback' | 'errorState' | 'continue';
+
+/** Describes a transition during which a hook or transition effect threw. */
+export interface FocusTransitionErrorInfo {
+    kind: FocusTransitionKind;
+    from: string | null;
+    to: string;
+    /** The region whose transition failed. */
+    region: string;
+    /** The state whose hook or transition effect threw, or null for errors outside of hooks. */
+    state: string | null;
+    hook: FocusHookName | null;
+    /** The position of the hook among the state's hooks of that kind, in registration order. -1 for transition effects. */
+    index: number;
+    /** The original error. */
+    error: unknown;
+    /** The strategy that was applied. */
+    recovery: FocusErrorRecovery;
+}
+
+type TransitionErrorListener = (info: FocusTransitionErrorInfo) => void;
+
+/** The navigation methods whose calls are reported to `onInput()` listeners. */
+export type FocusNavigationMethod = 'switch' | 'push' | 'pop' | 'replace' | 'popTo' | 'popMany' | 'back' | 'forward';
+
+/**
+ * Something that drove a manager, reported to `onInput()` listeners before it takes effect:
+ * - `call`: A navigation method was called. `result` is the promise the method returned.
+ * - `key`: A key event was handled by a state's `onKey()` listener.
+ */
+export type FocusInput =
+    | { type: 'call', method: FocusNavigationMethod, args: any[], result: Promise<void> }
+    | { type: 'key', event: KeyboardEvent, state: string, status: FocusListenerStatus };
+
+type InputListener = (input: FocusInput) => void;
+
+/**
+ * The error a transition promise is rejected with when a hook or transition effect threw.
+ * By the time it is thrown, the manager has already recovered according to `errorRecovery`.
+ */
+export class FocusTransitionError extends Error {
+    constructor(public readonly info: FocusTransitionErrorInfo) {
+        super(`Transition '${info.kind}' to '${info.to}' failed${info.state ? ` in ${info.hook === 'effect' ? 'the transition effect' : `${info.hook} hook #${info.index}`} of state '${info.state}'` : ''}. Recovered with '${info.recovery}'.`);
+        this.name = 'FocusTransitionError';
+    }
+}
+
+/** What a running transition needs in order to be rolled back. */
+interface TransitionCheckpoint {
+    kind: FocusTransitionKind;
+    from: string | null;
+    to: string;
+    /** The state whose transition effect is playing. */
+    effectOwner: string;
+    transition: FocusTransitionEffect | null;
+    effectName: string | null;
+    durationMs: number;
+    context: FocusTransitionContext;
+    stack: string[];
+    payloads: any[];
+    history: FocusHistoryEntry[];
+    historyIndex: number;
+    /**
+     * The stack depths whose state this transition started to exit or to enter, with whichever came last.
+     * Tracked by depth because the stack can hold a state that was exited and a new entry of the same state.
+     */
+    touched: Map<number, 'exited' | 'entered'>;
+    /** The state below that is paused while the transition runs: paused by a push, or still covered during a replace. */
+    paused: string | null;
+    /** True while the transition effect covers the screen. */
+    covered: boolean;
+    /** When the transition started, in `performance.now()` milliseconds. */
+    startedAt: number;
 }
 
-type SwitchListener = (newState: string, oldState: string | null) => void;
+/** What `_runTransition` needs to know about a transition before running it. */
+type TransitionDescription = Pick<TransitionCheckpoint, 'kind' | 'from' | 'to' | 'effectOwner' | 'transition' | 'effectName' | 'durationMs'> & { params: Record<string, any>, payload?: any };
+
+/** Changes the stack. Receives the payload after middleware had a chance to replace it. */
+type TransitionBody = (onError: FocusHookErrorHandler | undefined, payload: any) => Promise<void>;
+
+interface QueuedTransition extends FocusPendingTransition {
+    run: () => Promise<void>;
+    resolve: () => void;
+    reject: (reason: any) => void;
+}
 
 /**
  * A state machine for managing high-level application states like 'lobby', 'game', or 'menu'.
  * It provides a fluent API to define states and orchestrates UI transitions,
  * ensuring proper setup and cleanup of UI layers and associated logic.
+ * @typeParam TStates Maps each state name to the payload its `onEnter` hooks receive.
+ * @typeParam TEvents Maps each event name on `events` to its payload.
+ * @example
+ * type States = { lobby: undefined, game: { roomName: string } };
+ * type Events = { 'lobby:joinGame': { roomName: string } };
+ * const fm = new FocusManager<States, Events>();
+ * fm.switch('game', { roomName: 'alpha' }); // Payload is checked against States['game'].
  */
-export class FocusManager {
-    private states = new Map<string, FocusStateConfig>();
+export class FocusManager<TStates extends FocusStateMap = FocusStateMap, TEvents extends FocusEventMap = FocusEventMap> {
+    private definitions = new Map<string, FocusStateConfig>(); // As built, before inheritance
+    private states = new Map<string, FocusStateConfig>(); // With inheritance resolved
     private uiLayerManager: UILayerManager;
     private managedLayers = new Set<string>();
-    private _stateStack: string[] = [];
-    private _events: FocusEventBus;
+    private _stateStack: FocusStateName<TStates>[] = [];
+    private _stackPayloads: any[] = []; // Parallel to _stateStack
+    private _events: FocusEventBus<TEvents>;
     private activeEventListeners = new Map<string, { eventName: string, callback: (payload: any) => void }>();
     private activeKeyListeners = new Map<string, { eventType: string, handler: (event: KeyboardEvent) => void }>();
 
     private switchListeners: SwitchListener[] = [];
+    private blockedListeners: TransitionBlockedListener[] = [];
+    private errorListeners: TransitionErrorListener[] = [];
+    private inputListeners: InputListener[] = [];
+    private _regionName = MAIN_REGION;
+    private _host: FocusManager<any, TEvents> | null = null;
+    private _regions = new Map<string, FocusManager<any, TEvents>>();
+    private _parent: FocusManager<any, any> | null = null;
+    private _children = new Map<string, { manager: FocusManager<any, TEvents>, initialState: string }>(); // Keyed by the owning state
+    private _suspended = false; // Set while the state owning this child machine is covered
+    private _disposed = false;
+    private ownedLayers = new Set<string>(); // Layers created from `ui.layers` declarations
+    private _history: FocusHistoryEntry[] = [];
+    private _historyIndex = -1;
+    private _historyNavigationIndex: number | null = null; // Set while back()/forward() run
+    private _restoring = false;
+    private _checkpoint: TransitionCheckpoint | null = null;
+    private _recovering = false; // Set while switching to the error state
+    private _persistence: { key: string, storage: FocusStorageAdapter } | null = null;
+    private _activeTransition: QueuedTransition | null = null;
+    private _transitionQueue: QueuedTransition[] = [];
+    private handlers = new Map<string, FocusConfigHandler>();
+    private middleware: { name: string, run: FocusMiddleware }[] = [];
+    private plugins = new Map<string, () => void>(); // Plugin name -> uninstall
     private static transitionEffects = new Map<string, FocusTransitionEffect>();
+    private static loadingViews = new Map<string, FocusLoadingView>();
     private static transitionLayer: UILayer | null = null;
     private static _defaultsInitialized = false;
+    /** The managers, regions and child machines created and not yet disposed. The static registries are reset when the last one is. */
+    private static _liveManagers = 0;
 
     /**
      * @param uiLayerManager An instance of the UILayerManager to control UI layers.
@@ -44,11 +383,14 @@ export class FocusManager {
             this.uiLayerManager = UILayerManager.getInstance();
         }
 
-        this._events = new FocusEventBus();
+        this._events = new FocusEventBus<TEvents>();
+        this.timers = new FocusTimerScheduler(this);
+        FocusManager._liveManagers++;
 
         if (!FocusManager._defaultsInitialized) {
             FocusManager._logBrand();
             FocusManager._initializeDefaultEffects();
+            FocusManager._initializeDefaultLoadingViews();
             FocusManager._defaultsInitialized = true;
         }
 
@@ -62,20 +404,24 @@ export class FocusManager {
             layerEl.style.left = '0';
             layerEl.style.width = '100vw';
             layerEl.style.height = '100vh';
-            layerEl.style.pointerEvents = 'none';
-            layerEl.style.backgroundColor = 'black';
+            layerEl.style.pointerEvents = 'none'; // Effects draw on surfaces inside it
 
             FocusManager.transitionLayer.hide();
         }
     }
 
     /** The name of the currently active state (top of the stack). */
-    public get current(): string | null {
+    public get current(): FocusStateName<TStates> | null {
         return this._stateStack.length > 0 ? this._stateStack[this._stateStack.length - 1] : null;
     }
 
+    /** The payload the current state was entered with. */
+    public get currentPayload(): any {
+        return this._stackPayloads[this._stackPayloads.length - 1];
+    }
+
     /** The current stack of state names, with the active state at the end. */
-    public get stateStack(): readonly string[] {
+    public get stateStack(): readonly FocusStateName<TStates>[] {
         return this._stateStack;
     }    
 
@@ -84,62 +430,292 @@ export class FocusManager {
         return this.uiLayerManager;
     }
 
-    /** The event bus instance for decoupled communication. */
-    public get events(): FocusEventBus {
-        return this._events;
+    /** The event bus instance for decoupled communication. It also carries the `FocusLifecycleEvents`. */
+    public get events(): FocusEventBus<TEvents & FocusLifecycleEvents> {
+        return this._events as FocusEventBus<TEvents & FocusLifecycleEvents>;
     }
 
     /** Provides information about the current device (e.g., touch capabilities). */
     public readonly device = Device;
 
+    /** The name of the region this manager drives. A manager created with `new` is the 'main' region. */
+    public get regionName(): string {
+        return this._regionName;
+    }
+
+    /** All regions sharing this manager's event bus, including 'main', keyed by name. */
+    public get regions(): ReadonlyMap<string, FocusManager<any, TEvents>> {
+        if (this._host) return this._host.regions;
+        return new Map<string, FocusManager<any, TEvents>>([[this._regionName, this], ...this._regions]);
+    }
+
+    /**
+     * Returns a parallel region, creating it on first use.
+     * A region is a `FocusManager` with its own registered states, stack, transition queue and
+     * scoped event/key listeners. It shares this manager's UILayerManager and event bus, so
+     * states in different regions can talk to each other through events. A region's `ui.visible`
+     * only shows and hides the layers its own states mention, and its transitions never exit
+     * states in other regions. Region changes are reported to the main region's `onSwitch` listeners.
+     * @param name The unique name of the region (e.g., 'chat', 'social').
+     * @typeParam RStates The state map of the region. Defaults to this manager's state map.
+     */
+    public region<RStates extends FocusStateMap = TStates>(name: string): FocusManager<RStates, TEvents> {
+        if (this._host) return this._host.region<RStates>(name);
+        if (name === this._regionName) return this as unknown as FocusManager<RStates, TEvents>;
+
+        let region = this._regions.get(name);
+        if (!region) {
+            region = new FocusManager<RStates, TEvents>(this.uiLayerManager);
+            region._events = this._events;
+            region._regionName = name;
+            region._host = this;
+            this._regions.set(name, region);
+            FMLog.log('lifecycle', `Created region '${name}'.`);
+        }
+        return region as FocusManager<RStates, TEvents>;
+    }
+
+    /** The manager whose state owns this child machine, or null for a top-level manager. */
+    public get parent(): FocusManager<any, any> | null {
+        return this._parent;
+    }
+
+    /** The child machines created by `withChildMachine()`, keyed by the state that owns them. */
+    public get children(): ReadonlyMap<string, FocusManager<any, TEvents>> {
+        return new Map(Array.from(this._children, ([stateName, { manager }]) => [stateName, manager]));
+    }
+
+    /**
+     * Returns the child machine owned by a state.
+     * @param stateName A state configured with `withChildMachine()`.
+     * @returns The child, or null if the state has none or has not been entered yet.
+     */
+    public child<CStates extends FocusStateMap = FocusStateMap>(stateName: string): FocusManager<CStates, TEvents> | null {
+        return (this._children.get(stateName)?.manager as FocusManager<CStates, TEvents> | undefined) ?? null;
+    }
+
+    /** True while the state owning this child machine is covered by `push()`. */
+    public get isSuspended(): boolean {
+        return this._suspended;
+    }
+
+    /**
+     * Starts the child machine of the current state in its initial state, creating it on first entry.
+     * The child shares the UILayerManager. Its event bus forwards events no child state handles to this manager's bus.
+     * @internal Called by the hooks `FocusState.withChildMachine()` adds.
+     */
+    public async enterChildMachine<CStates extends FocusStateMap>(build: (child: FocusManager<CStates, TEvents>) => FocusStateName<CStates>): Promise<void> {
+        const owner = this.current!;
+        let entry = this._children.get(owner);
+        if (!entry) {
+            const child = new FocusManager<CStates, TEvents>(this.uiLayerManager);
+            child._events = new FocusEventBus<TEvents>(this._events);
+            child._regionName = `${this._regionName}/${owner}`;
+            child._parent = this;
+            entry = { manager: child, initialState: build(child) };
+            this._children.set(owner, entry);
+            FMLog.log('lifecycle', `Created child machine of state '${owner}'.`);
+        }
+        await entry.manager.switch(entry.initialState);
+    }
+
+    /**
+     * Exits every state of the current state's child machine, after its pending transitions.
+     * @internal Called by the hooks `FocusState.withChildMachine()` adds.
+     */
+    public async exitChildMachine(nextStateName: string): Promise<void> {
+        const child = this._children.get(this.current!)?.manager;
+        if (!child) return;
+        await child._enqueueTransition({ kind: 'clear', name: null }, undefined, () => child._performClear(nextStateName));
+        child._suspended = false;
+    }
+
+    /**
+     * Pauses the active state of the current state's child machine and silences its listeners, layers and timers.
+     * @internal Called by the hooks `FocusState.withChildMachine()` adds.
+     */
+    public async suspendChildMachine(coveringStateName: string): Promise<void> {
+        const child = this._children.get(this.current!)?.manager;
+        if (!child || child._suspended) return;
+        child._suspended = true;
+        child._deactivateStateEventListeners();
+        child._deactivateStateKeyListeners();
+        child._updateUiVisibility();
+        if (child.current) {
+            await child.states.get(child.current)?.onPause?.(coveringStateName);
+            // Only `whenSuspended` listeners stay on while the child is suspended
+            child._activateStateEventListeners(child.current);
+            child._activateStateKeyListeners(child.current);
+        }
+    }
+
+    /**
+     * Resumes the current state's child machine after `suspendChildMachine()`.
+     * @internal Called by the hooks `FocusState.withChildMachine()` adds.
+     */
+    public async resumeChildMachine(revealingStateName: string): Promise<void> {
+        const child = this._children.get(this.current!)?.manager;
+        if (!child || !child._suspended) return;
+        child._suspended = false;
+        if (child.current) {
+            await child.states.get(child.current)?.onResume?.(revealingStateName);
+            child._activateStateEventListeners(child.current);
+            child._activateStateKeyListeners(child.current);
+        }
+        child._updateUiVisibility();
+    }
+
+    /**
+     * How the active state moves onto its new definition when it is registered again.
+     * Can be overridden per `register()` call.
+     */
+    public hotSwapMode: FocusHotSwapMode = 'reenter';
+
+    /**
+     * The default concurrency policy for `switch()`, `push()` and `pop()` calls
+     * that don't pass their own `policy` option.
+     */
+    public transitionPolicy: FocusTransitionPolicy = 'queue';
+
+    /** What `push()` does with a state that is already on the stack below the top. */
+    public duplicatePolicy: FocusDuplicatePolicy = 'allow';
+
+    /**
+     * The registered loading view shown while a state's `onEnter` hooks run behind a transition effect.
+     * States can override it with `withLoadingView()`. 'none' shows none.
+     */
+    public loadingView = 'bar';
+
+    /** How long `onEnter` hooks may run before the loading view appears, in milliseconds. Fast loads never show it. */
+    public loadingDelayMs = 300;
+
+    /** The minimum time the loading view stays up once shown, in milliseconds, so it doesn't flicker. */
+    public loadingMinDisplayMs = 500;
+
+    /**
+     * Timers scoped to the active state. They freeze while the state is covered by `push()`
+     * and are cancelled when it exits.
+     */
+    public readonly timers: FocusTimerScheduler;
+
+    /**
+     * If true, `switch()` and `push()` reject with a `FocusTransitionNotAllowedError` unless the
+     * current state declared the target with `allowTo()` or `allowPushOf()`. Entering the first
+     * state, `back()`, `forward()` and `restore()` are always allowed, since they only revisit states.
+     * When false, undeclared transitions out of a state that declares any are logged as warnings.
+     */
+    public strictTransitions = false;
+
+    /**
+     * What to do when a lifecycle hook or transition effect throws during a transition.
+     * Whatever the strategy, the error is logged, reported to `onTransitionError` listeners,
+     * and the transition layer is released. See `FocusErrorRecovery`.
+     */
+    public errorRecovery: FocusErrorRecovery = 'rollback';
+
+    /** The state to switch to when `errorRecovery` is 'errorState'. It receives a `FocusTransitionErrorInfo` as its payload. */
+    public onErrorState: FocusStateName<TStates> | null = null;
+
+    /** The transition effect used for states that don't declare one. Null for no effect. */
+    public defaultTransition: string | null = null;
+
+    /** The effect duration in milliseconds used when neither the call nor the state specifies one. */
+    public defaultTransitionDuration = 300;
+
+    /** The maximum number of entries kept in the navigation history. Older entries are dropped first. */
+    public historyLimit = 50;
+
+    /** The recorded switches and pushes, oldest first. */
+    public get history(): readonly FocusHistoryEntry[] {
+        return this._history;
+    }
+
+    /** The index in `history` of the entry for the current state, or -1 if there is none. */
+    public get historyIndex(): number {
+        return this._historyIndex;
+    }
+
+    /** True if `back()` has an entry to return to. */
+    public get canGoBack(): boolean {
+        return this._historyBackIndex() >= 0;
+    }
+
+    /** True if `forward()` has an entry to redo. */
+    public get canGoForward(): boolean {
+        return this._historyIndex + 1 < this._history.length;
+    }
+
+    /** True while a transition is running. */
+    public get isTransitioning(): boolean {
+        return this._activeTransition !== null;
+    }
+
+    /** The transitions waiting for the current one to finish, in the order they will run. */
+    public get pendingTransitions(): readonly FocusPendingTransition[] {
+        return this._transitionQueue.map(({ kind, name, payload }) => ({ kind, name, payload }));
+    }
+
     /**
      * Checks if the currently active state matches the given name.
      * @param stateName The name of the state to check.
      * @returns True if it's the current state.
      */
-    public is(stateName: string): boolean {
+    public is(stateName: FocusStateName<TStates>): boolean {
         return this.current === stateName;
     }
 
     /**
      * Creates a new, configurable focus state builder.
-     * @param name The unique name for the state.
+     * @param name The unique name for the state. Names missing from the state map (e.g. base states) are allowed and get an untyped payload.
      * @returns A `FocusState` instance for configuration via a fluent API.
      */
-    public create(name: string): FocusState {
+    public create<K extends string>(name: K): FocusState<K extends keyof TStates ? TStates[K] : any, TStates, TEvents> {
         return new FocusState(name, this.uiLayerManager, this);
     }
 
     /**
      * Registers a configured focus state, making it available to `switch` to.
+     * States can be registered in any order; a state extending a base that is not registered yet
+     * picks it up once it is. Registering a name again replaces the state and every state extending it.
+     * If the active state is replaced, it is hot-swapped according to `hotSwapMode`.
      * @param state The `FocusState` instance to register, typically after configuring it.
+     * @param options `hotSwap` overrides `hotSwapMode` for this call.
      */
-    public register(state: FocusState): void {
+    public register(state: FocusState<any, TStates, TEvents>, options: { hotSwap?: FocusHotSwapMode } = {}): void {
         const name = state.name;
-        if (this.states.has(name)) {
-            FMLog.log('warn', `A state with the name '${name}' is already registered. Overwriting.`);
+        if (this.definitions.has(name)) {
+            FMLog.log('state', `A state with the name '${name}' is already registered. Replacing it.`);
         }
-        const config = state.build();
-
-        // Resolve inheritance to get the final, complete configuration.
-        const finalConfig = this.resolveInheritance(config);
+        this.definitions.set(name, state.build());
+        this._resolveStates(name, options.hotSwap ?? this.hotSwapMode);
+    }
 
-        // Auto-create any layers defined in the state config.
-        if (finalConfig.ui?.layers) {
-            for (const layerName in finalConfig.ui.layers) {
-                if (!this.uiLayerManager.has(layerName)) {
-                    const zIndex = finalConfig.ui.layers[layerName];
-                    this.uiLayerManager.create(layerName, zIndex);
-                }
-            }
+    /**
+     * Removes a registered state. States that extend it lose what they inherited from it.
+     * A state that is on the stack can't be removed; switch away from it first.
+     * @param name The name of the state to remove.
+     * @returns True if the state was removed.
+     */
+    public unregister(name: string): boolean {
+        if (!this.definitions.has(name)) {
+            FMLog.log('warn', `Cannot unregister state '${name}' because it is not registered.`);
+            return false;
+        }
+        if (this._stateStack.includes(name)) {
+            FMLog.log('warn', `Cannot unregister state '${name}' while it is on the stack. Switch away from it first.`);
+            return false;
         }
 
-        this.states.set(name, finalConfig);
-
-        // Keep track of all layers mentioned in any config so we can manage them.
-        finalConfig.ui?.visible?.forEach(layerName => this.managedLayers.add(layerName));
-        finalConfig.ui?.preserveOnExit?.forEach(layerName => this.managedLayers.add(layerName));
-        finalConfig.ui?.cleanupOnExit?.forEach(layerName => this.managedLayers.add(layerName));
+        this.definitions.delete(name);
+        this.states.delete(name);
+        const child = this._children.get(name);
+        if (child) {
+            this._children.delete(name);
+            child.manager.dispose();
+        }
+        this._resolveStates(name, this.hotSwapMode);
+        FMLog.log('state', `Unregistered state '${name}'.`);
+        return true;
     }
 
     /** Returns an array of all registered state names. */
@@ -152,9 +728,87 @@ export class FocusManager {
         return this.states;
     }
 
+    /**
+     * Describes the registered states as a graph, for reviewing the flow in pull requests or drawing it in `FocusDebugger`.
+     * Edges are the `extends` relations and the transitions declared with `allowTo()` and `allowPushOf()`,
+     * labelled with the transition effect of the state being entered.
+     * @param format `'mermaid'` for a Mermaid flowchart, or `'dot'` for Graphviz.
+     * @returns The graph source.
+     */
+    public exportGraph(format: FocusGraphFormat = 'mermaid'): string {
+        type Edge = { from: string, to: string, label: string, kind: 'extends' | 'switch' | 'push' };
+        const edges: Edge[] = [];
+        const effectLabel = (kind: string, source: string, target: string) => {
+            const config = this.states.get(target);
+            const effect = config?.transitionsFrom?.[source]?.effectName ?? config?.transitionEffectName ?? this.defaultTransition;
+            return effect ? `${kind}: ${effect}` : kind;
+        };
+
+        for (const [name, config] of this.states) {
+            if (config.extends) edges.push({ from: name, to: config.extends, label: 'extends', kind: 'extends' });
+            config.allowedSwitches?.forEach(to => edges.push({ from: name, to, label: effectLabel('switch', name, to), kind: 'switch' }));
+            config.allowedPushes?.forEach(to => edges.push({ from: name, to, label: effectLabel('push', name, to), kind: 'push' }));
+        }
+
+        const names = [...this.states.keys()];
+        if (format === 'dot') {
+            const style = { extends: ', style=dashed', switch: '', push: ', style=bold' };
+            return [
+                `digraph "${this._regionName}" {`,
+                '    rankdir=LR;',
+                ...names.map(name => `    "${name}";`),
+                ...edges.map(e => `    "${e.from}" -> "${e.to}" [label="${e.label}"${style[e.kind]}];`),
+                '}',
+            ].join('\n');
+        }
+
+        const id = (name: string) => name.replace(/[^A-Za-z0-9_]/g, '_');
+        const arrow = { extends: '-.->', switch: '-->', push: '==>' };
+        return [
+            'flowchart LR',
+            `    %% region: ${this._regionName}`,
+            ...names.map(name => `    ${id(name)}["${name}"]`),
+            ...edges.map(e => `    ${id(e.from)} ${arrow[e.kind]}|${e.label}| ${id(e.to)}`),
+        ].join('\n');
+    }
+
+    /**
+     * Registers a named callback that JSON state definitions can reference from `onEnter`, `onExit` and `call` bindings.
+     * @param name The name used in the configuration.
+     * @param handler Receives the manager and the payload, next state name or keyboard event, depending on where it is used.
+     */
+    public registerHandler(name: string, handler: FocusConfigHandler): void {
+        if (this.handlers.has(name)) {
+            FMLog.log('warn', `A handler with the name '${name}' is already registered. Overwriting.`);
+        }
+        this.handlers.set(name, handler);
+    }
+
+    /** Returns the handler registered under the given name, if any. */
+    public getHandler(name: string): FocusConfigHandler | undefined {
+        return this.handlers.get(name);
+    }
+
+    /**
+     * Builds and registers states from a declarative JSON configuration.
+     * The whole configuration is validated first; if anything is wrong, nothing is registered.
+     * @param config The configuration object, or its JSON source.
+     * @param handlers Named callbacks to register before validating, in addition to those added with `registerHandler()`.
+     * @returns The names of the registered states.
+     * @throws {FocusConfigError} If the configuration is invalid, listing every problem found.
+     */
+    public registerFromConfig(config: FocusConfigDocument | string, handlers: Record<string, FocusConfigHandler> = {}): string[] {
+        for (const name in handlers) {
+            this.registerHandler(name, handlers[name]);
+        }
+        const document: FocusConfigDocument = typeof config === 'string' ? JSON.parse(config) : config;
+        return new FocusConfigLoader(this).load(document);
+    }
+
     /**
      * Registers a callback to be executed whenever the focus state changes.
-     * @param callback The function to call. It receives the new state name and the old state name.
+     * On the main region, this also fires for changes in every other region. A parent also hears about its child machines.
+     * @param callback The function to call. It receives the new state name, the old state name and the name of the region that changed.
      * @returns A function to unregister the listener.
      */
     public onSwitch(callback: SwitchListener): () => void {
@@ -174,87 +828,356 @@ export class FocusManager {
     }
 
     /**
-     * Registers a custom transition effect that can be used by `FocusState.withTransition()`.
-     * @param name The unique name for the effect.
-     * @param effect The effect implementation.
+     * Registers a callback to be executed whenever a `canEnter` or `canExit` guard blocks a transition,
+     * or a middleware aborts one. On the main region, this also fires for transitions blocked in every other region and in child machines.
+     * @param callback The function to call. It receives a description of the blocked transition.
+     * @returns A function to unregister the listener.
      */
-    public static registerTransitionEffect(name: string, effect: FocusTransitionEffect) {
-        if (this.transitionEffects.has(name)) {
-            FMLog.log('warn', `A transition effect with the name '${name}' is already registered. Overwriting.`);
-        }
-        this.transitionEffects.set(name, effect);
+    public onTransitionBlocked(callback: TransitionBlockedListener): () => void {
+        this.blockedListeners.push(callback);
+        return () => this.offTransitionBlocked(callback);
     }
 
-    private _activateStateEventListeners(stateName: string) {
-        this._deactivateStateEventListeners(); // Ensure clean slate
-
-        const stateConfig = this.states.get(stateName);
-        if (!stateConfig?.eventListeners) return;
-
-        FMLog.log('lifecycle', `Activating ${stateConfig.eventListeners.length} listeners for state '${stateName}'.`);
-
-        stateConfig.eventListeners.forEach((listener, index) => {
-            // Create the actual listener function that will be registered.
-            const scopedCallback = (payload: any) => {
-                // Only execute if this state is still the active one.
-                // This prevents race conditions where an event is processed after a rapid state change.
-                if (this.current === stateName) {
-                    listener.callback(this, payload);
-                }
-            };
-            this.events.on(listener.eventName, scopedCallback);
-
-            const key = `${stateName}::${listener.eventName}::${index}`;
-            // Store the event name and the callback so we can unregister it later.
-            this.activeEventListeners.set(key, { eventName: listener.eventName, callback: scopedCallback });
-        });
+    /**
+     * Unregisters a transition blocked callback.
+     * @param callback The function to unregister.
+     */
+    public offTransitionBlocked(callback: TransitionBlockedListener): void {
+        const index = this.blockedListeners.indexOf(callback);
+        if (index > -1) {
+            this.blockedListeners.splice(index, 1);
+        }
     }
 
-    private _deactivateStateEventListeners() {
-        if (this.activeEventListeners.size === 0) return;
+    /**
+     * Registers a callback to be executed whenever a hook or transition effect throws during a transition.
+     * On the main region, this also fires for errors in every other region and in child machines.
+     * @param callback The function to call. It receives the failing state, hook and error, and the recovery that was applied.
+     * @returns A function to unregister the listener.
+     */
+    public onTransitionError(callback: TransitionErrorListener): () => void {
+        this.errorListeners.push(callback);
+        return () => this.offTransitionError(callback);
+    }
 
-        FMLog.log('lifecycle', `Deactivating ${this.activeEventListeners.size} listeners.`);
-        for (const listenerInfo of this.activeEventListeners.values()) {
-            // Assuming an 'off' method exists on the event bus, which is standard.
-            (this.events as any).off(listenerInfo.eventName, listenerInfo.callback);
+    /**
+     * Unregisters a transition error callback.
+     * @param callback The function to unregister.
+     */
+    public offTransitionError(callback: TransitionErrorListener): void {
+        const index = this.errorListeners.indexOf(callback);
+        if (index > -1) {
+            this.errorListeners.splice(index, 1);
         }
-        this.activeEventListeners.clear();
     }
 
-    private _activateStateKeyListeners(stateName: string) {
-        this._deactivateStateKeyListeners(); // Clean slate
+    /**
+     * Registers a callback to be executed for every navigation call on this manager and every key event
+     * its states handle, before it takes effect. Used by `FocusRecorder`.
+     * @param callback The function to call. It receives a description of the input.
+     * @returns A function to unregister the listener.
+     */
+    public onInput(callback: InputListener): () => void {
+        this.inputListeners.push(callback);
+        return () => this.offInput(callback);
+    }
 
-        const stateConfig = this.states.get(stateName);
-        if (!stateConfig?.keyListeners) return;
+    /**
+     * Unregisters an input callback.
+     * @param callback The function to unregister.
+     */
+    public offInput(callback: InputListener): void {
+        const index = this.inputListeners.indexOf(callback);
+        if (index > -1) {
+            this.inputListeners.splice(index, 1);
+        }
+    }
 
-        FMLog.log('lifecycle', `Activating ${stateConfig.keyListeners.length} key listeners for state '${stateName}'.`);
+    private _notifyInput(input: FocusInput): void {
+        for (const listener of [...this.inputListeners]) {
+            try {
+                listener(input);
+            } catch (e) {
+                FMLog.log('error', "Error in onInput listener", e);
+            }
+        }
+    }
 
-        stateConfig.keyListeners.forEach((listener, index) => {
-            const handler = (event: KeyboardEvent) => {
-                // Check if the state is still active and the key matches
-                if (this.current === stateName && event.key === listener.key) {
-                    listener.callback(this, event);
-                }
-            };
+    /** Reports a navigation call to the `onInput()` listeners before it is enqueued, and returns its result. */
+    private _reportCall(method: FocusNavigationMethod, args: any[], enqueue: () => Promise<void>): Promise<void> {
+        if (this.inputListeners.length === 0) return enqueue();
 
-            document.addEventListener(listener.eventType, handler);
-            const key = `${stateName}::${listener.eventType}::${listener.key}::${index}`;
-            this.activeKeyListeners.set(key, { eventType: listener.eventType, handler });
-        });
+        let settle!: { resolve: () => void, reject: (error: unknown) => void };
+        const result = new Promise<void>((resolve, reject) => { settle = { resolve, reject }; });
+        this._notifyInput({ type: 'call', method, args, result });
+        enqueue().then(settle.resolve, settle.reject);
+        return result;
     }
 
-    private _deactivateStateKeyListeners() {
-        if (this.activeKeyListeners.size === 0) return;
+    /**
+     * Tears the manager down, e.g. when the Rogue Engine editor restarts play mode. Pending transitions
+     * are cancelled, every state exits without a transition effect (`onExit` hooks receive an empty
+     * string as the next state), and regions and child machines are disposed as well. Listeners, handlers,
+     * timers, plugins and the layers created from `ui.layers` declarations are removed. Disposing the last
+     * live manager also destroys the shared transition layer and forgets the registered transition effects
+     * and loading views, so that the next `FocusManager` boots like the first one. Persisted snapshots are kept.
+     * Transitions requested afterwards reject with a `FocusTransitionCancelledError`.
+     * @returns A promise that resolves once every state has exited.
+     */
+    public async dispose(): Promise<void> {
+        if (this._disposed) return;
+        this._disposed = true;
+        this._persistence = null;
+
+        try {
+            await this._enqueueTransition({ kind: 'clear', name: null }, { policy: 'replace' }, () => this._performClear(''));
+        } catch (e) {
+            // Already logged; the teardown goes on regardless.
+        }
 
-        FMLog.log('lifecycle', `Deactivating ${this.activeKeyListeners.size} key listeners.`);
-        for (const listenerInfo of this.activeKeyListeners.values()) {
-            document.removeEventListener(listenerInfo.eventType, listenerInfo.handler);
+        for (const region of this._regions.values()) {
+            await region.dispose();
         }
-        this.activeKeyListeners.clear();
-    }
+        this._regions.clear();
+        for (const { manager } of this._children.values()) {
+            await manager.dispose();
+        }
+        this._children.clear();
+        this._host?._regions.delete(this._regionName);
+
+        this.timers.cancelAll();
+        [...this.plugins.values()].forEach(uninstall => uninstall());
+        this.middleware = [];
+        this.switchListeners = [];
+        this.blockedListeners = [];
+        this.errorListeners = [];
+        this.inputListeners = [];
+        this.handlers.clear();
+        this._history = [];
+        this._historyIndex = -1;
+        for (const layerName of this.ownedLayers) {
+            this.uiLayerManager.destroy(layerName);
+        }
+        this.ownedLayers.clear();
+
+        if (--FocusManager._liveManagers === 0) {
+            const layer = FocusManager.transitionLayer;
+            if (layer) {
+                if (this.uiLayerManager.get(layer.name) === layer) {
+                    this.uiLayerManager.destroy(layer.name);
+                } else {
+                    layer.element.remove();
+                }
+                FocusManager.transitionLayer = null;
+            }
+            FocusManager.transitionEffects.clear();
+            FocusManager.loadingViews.clear();
+            FocusManager._defaultsInitialized = false;
+        }
+        FMLog.log('lifecycle', `Disposed region '${this._regionName}'.`);
+    }
+
+    /**
+     * Adds a middleware that wraps every transition of this manager, or installs a plugin.
+     * Middleware runs in the order it was added, once the guards have allowed the transition.
+     * Middleware added to the main region also wraps the transitions of every other region.
+     * A middleware that throws rejects the transition's promise.
+     * @param middleware A `FocusMiddleware` function, or a `FocusPlugin`.
+     * @returns A function that removes the middleware or uninstalls the plugin.
+     * @example
+     * fm.use(async (ctx, next) => {
+     *     inputLock.acquire();
+     *     try { await next(); } finally { inputLock.release(); }
+     * });
+     */
+    public use(middleware: FocusMiddleware | FocusPlugin): () => void {
+        if (typeof middleware === 'function') {
+            return this._addMiddleware(middleware.name || `middleware #${this.middleware.length + 1}`, middleware);
+        }
+
+        const plugin = middleware;
+        const installed = this.plugins.get(plugin.name);
+        if (installed) {
+            FMLog.log('warn', `Plugin '${plugin.name}' is already installed.`);
+            return installed;
+        }
+
+        const pluginMiddleware = plugin.middleware === undefined ? [] : ([] as FocusMiddleware[]).concat(plugin.middleware);
+        const removeMiddleware = pluginMiddleware.map(run => this._addMiddleware(plugin.name, run));
+        let cleanup: void | (() => void);
+        try {
+            cleanup = plugin.install?.(this);
+        } catch (e) {
+            removeMiddleware.forEach(remove => remove());
+            throw e;
+        }
+
+        const uninstall = () => {
+            if (this.plugins.get(plugin.name) !== uninstall) return;
+            this.plugins.delete(plugin.name);
+            removeMiddleware.forEach(remove => remove());
+            if (typeof cleanup === 'function') cleanup();
+        };
+        this.plugins.set(plugin.name, uninstall);
+        FMLog.log('lifecycle', `Plugin '${plugin.name}' installed.`);
+        return uninstall;
+    }
+
+    /**
+     * Checks whether a plugin is installed.
+     * @param name The plugin's name.
+     */
+    public hasPlugin(name: string): boolean {
+        return this.plugins.has(name);
+    }
+
+    private _addMiddleware(name: string, run: FocusMiddleware): () => void {
+        const entry = { name, run };
+        this.middleware.push(entry);
+        return () => {
+            const index = this.middleware.indexOf(entry);
+            if (index > -1) {
+                this.middleware.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Registers a custom transition effect that can be used by `FocusState.withTransition()`.
+     * @param name The unique name for the effect.
+     * @param effect The effect implementation.
+     */
+    public static registerTransitionEffect<P>(name: string, effect: FocusTransitionEffect<P>) {
+        if (this.transitionEffects.has(name)) {
+            FMLog.log('warn', `A transition effect with the name '${name}' is already registered. Overwriting.`);
+        }
+        this.transitionEffects.set(name, effect);
+    }
+
+    /** Checks if a transition effect with the given name is registered. */
+    public static hasTransitionEffect(name: string): boolean {
+        return this.transitionEffects.has(name);
+    }
+
+    /** The transition effect registered with the given name, e.g. to build a new one from it with `sequence()`. */
+    public static getRegisteredTransitionEffect(name: string): FocusTransitionEffect | undefined {
+        return this.transitionEffects.get(name);
+    }
+
+    /**
+     * Registers a loading view that can be selected with `loadingView` or `FocusState.withLoadingView()`.
+     * @param name The unique name for the view (e.g., 'spinner').
+     * @param view The view implementation.
+     */
+    public static registerLoadingView(name: string, view: FocusLoadingView) {
+        if (this.loadingViews.has(name)) {
+            FMLog.log('warn', `A loading view with the name '${name}' is already registered. Overwriting.`);
+        }
+        this.loadingViews.set(name, view);
+    }
+
+    /** Checks if a loading view with the given name is registered. */
+    public static hasLoadingView(name: string): boolean {
+        return this.loadingViews.has(name);
+    }
+
+    /**
+     * The listeners to wire while `stateName` is on top: all of its own, unless this child machine
+     * is suspended, and the `whenSuspended` ones of every state below it.
+     */
+    private _listenersToActivate<L extends { whenSuspended?: boolean }>(stateName: string, select: (config: FocusStateConfig) => L[] | undefined): { stateName: string, listener: L, index: number }[] {
+        const result: { stateName: string, listener: L, index: number }[] = [];
+        const visited = new Set<string>();
+        const names = [stateName, ...this.stateStack.filter(name => name !== stateName).reverse()];
+        for (const name of names) {
+            if (visited.has(name)) continue;
+            visited.add(name);
+            const onTop = name === stateName && !this._suspended;
+            select(this.states.get(name) ?? {})?.forEach((listener, index) => {
+                if (onTop || listener.whenSuspended) result.push({ stateName: name, listener, index });
+            });
+        }
+        return result;
+    }
+
+    /** Whether a listener of the given state may run right now, and with which status. Null once the state has left the stack. */
+    private _listenerStatus(stateName: string, whenSuspended?: boolean): FocusListenerStatus | null {
+        if (this.current === stateName && !this._suspended) return 'active';
+        return whenSuspended && this.stateStack.includes(stateName) ? 'suspended' : null;
+    }
+
+    private _activateStateEventListeners(stateName: string) {
+        this._deactivateStateEventListeners(); // Ensure clean slate
+
+        const listeners = this._listenersToActivate(stateName, config => config.eventListeners);
+        if (listeners.length === 0) return;
+
+        FMLog.log('lifecycle', `Activating ${listeners.length} listeners for state '${stateName}'.`);
+
+        listeners.forEach(({ stateName: owner, listener, index }) => {
+            // Create the actual listener function that will be registered.
+            const scopedCallback = (payload: any) => {
+                // Only execute if the owning state may still listen.
+                // This prevents race conditions where an event is processed after a rapid state change.
+                const status = this._listenerStatus(owner, listener.whenSuspended);
+                if (status) {
+                    listener.callback(this, payload, status);
+                }
+            };
+            (this._events as FocusEventBus).on(listener.eventName, scopedCallback);
+
+            const key = `${owner}::${listener.eventName}::${index}`;
+            // Store the event name and the callback so we can unregister it later.
+            this.activeEventListeners.set(key, { eventName: listener.eventName, callback: scopedCallback });
+        });
+    }
+
+    private _deactivateStateEventListeners() {
+        if (this.activeEventListeners.size === 0) return;
+
+        FMLog.log('lifecycle', `Deactivating ${this.activeEventListeners.size} listeners.`);
+        for (const listenerInfo of this.activeEventListeners.values()) {
+            (this._events as FocusEventBus).off(listenerInfo.eventName, listenerInfo.callback);
+        }
+        this.activeEventListeners.clear();
+    }
+
+    private _activateStateKeyListeners(stateName: string) {
+        this._deactivateStateKeyListeners(); // Clean slate
+
+        const listeners = this._listenersToActivate(stateName, config => config.keyListeners);
+        if (listeners.length === 0) return;
+
+        FMLog.log('lifecycle', `Activating ${listeners.length} key listeners for state '${stateName}'.`);
+
+        listeners.forEach(({ stateName: owner, listener, index }) => {
+            const handler = (event: KeyboardEvent) => {
+                // Check if the owning state may still listen and the key matches
+                const status = this._listenerStatus(owner, listener.whenSuspended);
+                if (status && event.key === listener.key) {
+                    this._notifyInput({ type: 'key', event, state: owner, status });
+                    listener.callback(this, event, status);
+                }
+            };
+
+            document.addEventListener(listener.eventType, handler);
+            const key = `${owner}::${listener.eventType}::${listener.key}::${index}`;
+            this.activeKeyListeners.set(key, { eventType: listener.eventType, handler });
+        });
+    }
+
+    private _deactivateStateKeyListeners() {
+        if (this.activeKeyListeners.size === 0) return;
+
+        FMLog.log('lifecycle', `Deactivating ${this.activeKeyListeners.size} key listeners.`);
+        for (const listenerInfo of this.activeKeyListeners.values()) {
+            document.removeEventListener(listenerInfo.eventType, listenerInfo.handler);
+        }
+        this.activeKeyListeners.clear();
+    }
 
     private getTransitionEffect(name?: string): FocusTransitionEffect | null {
-        if (!name) return null;
+        if (!name || name === 'none') return null;
         const effect = FocusManager.transitionEffects.get(name);
         if (!effect) {
             FMLog.log('warn', `Transition effect '${name}' not found.`);
@@ -263,6 +1186,33 @@ export class FocusManager {
         return effect;
     }
 
+    /**
+     * Picks the effect for a transition. The first of these that applies wins:
+     * `skipTransition`, the call's `transition` option, the entered state's `withTransitionFrom()` rule
+     * for the state being left, the effect owner's `withTransition()`, and the manager's `defaultTransition`.
+     * The duration comes from the call, then from whichever of those picked the effect, then `defaultTransitionDuration`.
+     * The parameters are the effect's defaults, overridden by those of whichever picked it, then by the call's `transitionParams`.
+     * @param ownerName The state whose `withTransition()` applies: the entered state, or the popped state for `pop()`.
+     */
+    private _resolveTransition(from: string | null, to: string, ownerName: string, options?: FocusTransitionOptions): { transition: FocusTransitionEffect | null, effectName: string | null, durationMs: number, params: Record<string, any> } {
+        if (options?.skipTransition) return { transition: null, effectName: null, durationMs: 0, params: {} };
+
+        const owner = this.states.get(ownerName);
+        const edge = from ? this.states.get(to)?.transitionsFrom?.[from] : undefined;
+        const choice: { effectName?: string, durationMs?: number, params?: Record<string, any> } = options?.transition ? { effectName: options.transition }
+            : edge ? edge
+            : owner?.transitionEffectName ? { effectName: owner.transitionEffectName, durationMs: owner.transitionDuration, params: owner.transitionParams }
+            : { effectName: this.defaultTransition ?? undefined };
+
+        const transition = this.getTransitionEffect(choice.effectName);
+        return {
+            transition,
+            effectName: transition ? choice.effectName! : null,
+            durationMs: options?.duration ?? choice.durationMs ?? this.defaultTransitionDuration,
+            params: { ...transition?.defaults, ...choice.params, ...options?.transitionParams },
+        };
+    }
+
     private static _logBrand() {
         const logoAscii = `
         
@@ -305,6 +1255,8 @@ by dbr
             // Combine unique reset/cleanup layers
             preserveOnExit: [...new Set([...(base.ui?.preserveOnExit || []), ...(child.ui?.preserveOnExit || [])])],
             cleanupOnExit: [...new Set([...(base.ui?.cleanupOnExit || []), ...(child.ui?.cleanupOnExit || [])])],
+            inheritVisibleFromBelow: child.ui?.inheritVisibleFromBelow ?? base.ui?.inheritVisibleFromBelow,
+            coveredTreatment: child.ui?.coveredTreatment ?? base.ui?.coveredTreatment,
         };
 
         const mergedConfig: FocusStateConfig = {
@@ -314,29 +1266,179 @@ by dbr
             // Explicitly merge complex properties
             ui: mergedUI,
             managedPrefabs: [...new Set([...(base.managedPrefabs || []), ...(child.managedPrefabs || [])])],
+            // Parameters belong to the effect they were given with.
+            transitionParams: child.transitionEffectName !== undefined ? child.transitionParams : base.transitionParams,
+            transitionsFrom: { ...(base.transitionsFrom || {}), ...(child.transitionsFrom || {}) },
+            allowedSwitches: [...new Set([...(base.allowedSwitches || []), ...(child.allowedSwitches || [])])],
+            allowedPushes: [...new Set([...(base.allowedPushes || []), ...(child.allowedPushes || [])])],
             onEnterHookCount: (base.onEnterHookCount || 0) + (child.onEnterHookCount || 0),
             onExitHookCount: (base.onExitHookCount || 0) + (child.onExitHookCount || 0),
+            onPauseHookCount: (base.onPauseHookCount || 0) + (child.onPauseHookCount || 0),
+            onResumeHookCount: (base.onResumeHookCount || 0) + (child.onResumeHookCount || 0),
+            canEnterGuardCount: (base.canEnterGuardCount || 0) + (child.canEnterGuardCount || 0),
+            canExitGuardCount: (base.canExitGuardCount || 0) + (child.canExitGuardCount || 0),
         };
 
         // Chain onEnter hooks (base -> child)
         if (base.onEnter || child.onEnter) {
-            mergedConfig.onEnter = async (payload, ui) => {
-                await base.onEnter?.(payload, ui);
-                await child.onEnter?.(payload, ui);
+            // Each side reports into its share of the progress, by hook count.
+            const baseHooks = base.onEnterHookCount || 0;
+            const totalHooks = baseHooks + (child.onEnterHookCount || 0);
+            const split = totalHooks > 0 ? baseHooks / totalHooks : 0.5;
+            mergedConfig.onEnter = async (payload, ui, onError, progress = noProgress) => {
+                await base.onEnter?.(payload, ui, onError, progress.slice(0, split));
+                await child.onEnter?.(payload, ui, onError, progress.slice(split, 1));
             };
         }
 
         // Chain onExit hooks (base -> child)
         if (base.onExit || child.onExit) {
-            mergedConfig.onExit = async (nextState) => {
-                await base.onExit?.(nextState);
-                await child.onExit?.(nextState);
+            mergedConfig.onExit = async (nextState, onError) => {
+                await base.onExit?.(nextState, onError);
+                await child.onExit?.(nextState, onError);
+            };
+        }
+
+        // Chain onPause / onResume hooks (base -> child)
+        if (base.onPause || child.onPause) {
+            mergedConfig.onPause = async (coveringState, onError) => {
+                await base.onPause?.(coveringState, onError);
+                await child.onPause?.(coveringState, onError);
+            };
+        }
+
+        if (base.onResume || child.onResume) {
+            mergedConfig.onResume = async (revealingState, onError) => {
+                await base.onResume?.(revealingState, onError);
+                await child.onResume?.(revealingState, onError);
+            };
+        }
+
+        // Combine guards (base -> child); every guard must pass.
+        if (base.canEnter || child.canEnter) {
+            mergedConfig.canEnter = async (payload, fromStateName) => {
+                if (base.canEnter && !(await base.canEnter(payload, fromStateName))) return false;
+                if (child.canEnter && !(await child.canEnter(payload, fromStateName))) return false;
+                return true;
+            };
+        }
+
+        if (base.canExit || child.canExit) {
+            mergedConfig.canExit = async (nextState) => {
+                if (base.canExit && !(await base.canExit(nextState))) return false;
+                if (child.canExit && !(await child.canExit(nextState))) return false;
+                return true;
             };
         }
 
         return mergedConfig;
     }
 
+    /**
+     * Resolves the inheritance of a changed state and of every state that extends it, directly or not,
+     * and hot-swaps the active state if its configuration changed.
+     */
+    private _resolveStates(changedName: string, hotSwap: FocusHotSwapMode) {
+        const affected = [changedName, ...this._statesExtending(changedName)].filter(name => this.definitions.has(name));
+        const previous = new Map<string, FocusStateConfig>();
+
+        for (const name of affected) {
+            const finalConfig = this.resolveInheritance(this.definitions.get(name)!);
+
+            // Auto-create any layers defined in the state config.
+            if (finalConfig.ui?.layers) {
+                for (const layerName in finalConfig.ui.layers) {
+                    if (!this.uiLayerManager.has(layerName)) {
+                        const zIndex = finalConfig.ui.layers[layerName];
+                        this.uiLayerManager.create(layerName, zIndex);
+                        this.ownedLayers.add(layerName);
+                    }
+                }
+            }
+
+            const previousConfig = this.states.get(name);
+            if (previousConfig) previous.set(name, previousConfig);
+            this.states.set(name, finalConfig);
+
+            // Keep track of all layers mentioned in any config so we can manage them.
+            finalConfig.ui?.visible?.forEach(layerName => this.managedLayers.add(layerName));
+            finalConfig.ui?.preserveOnExit?.forEach(layerName => this.managedLayers.add(layerName));
+            finalConfig.ui?.cleanupOnExit?.forEach(layerName => this.managedLayers.add(layerName));
+        }
+
+        for (const name of affected) {
+            const previousConfig = previous.get(name);
+            if (!previousConfig || !this._stateStack.includes(name)) continue;
+            if (name !== this.current) {
+                FMLog.log('state', `State '${name}' was replaced while covered. Its new hooks apply from now on.`);
+            }
+            this._enqueueTransition({ kind: 'hotSwap', name }, undefined, () => this._performHotSwap(name, previousConfig, hotSwap))
+                .catch(e => FMLog.log('error', `Hot-swapping state '${name}' failed.`, e));
+        }
+    }
+
+    /** The first state in the `extends` chain of the given state that is not registered, if any. */
+    private _missingBase(name: string): string | null {
+        const visited = new Set<string>([name]);
+        let ancestor = this.definitions.get(name)?.extends;
+        while (ancestor && !visited.has(ancestor)) {
+            if (!this.definitions.has(ancestor)) return ancestor;
+            visited.add(ancestor);
+            ancestor = this.definitions.get(ancestor)?.extends;
+        }
+        return null;
+    }
+
+    /** The names of the states whose `extends` chain contains the given state. */
+    private _statesExtending(baseName: string): string[] {
+        return Array.from(this.definitions.keys()).filter(name => {
+            const visited = new Set<string>([name]);
+            let ancestor = this.definitions.get(name)?.extends;
+            while (ancestor && !visited.has(ancestor)) {
+                if (ancestor === baseName) return true;
+                visited.add(ancestor);
+                ancestor = this.definitions.get(ancestor)?.extends;
+            }
+            return false;
+        });
+    }
+
+    /**
+     * Moves the active state onto its new configuration after it was replaced.
+     * `reenter` exits it with its old hooks and enters it again with the same payload;
+     * `patch` only swaps its event and key listeners and its visible layers.
+     */
+    private async _performHotSwap(name: string, previousConfig: FocusStateConfig, mode: FocusHotSwapMode): Promise<void> {
+        if (this.current !== name) {
+            // Covered: the new hooks already apply, but its `whenSuspended` listeners must be rewired.
+            if (this.current && this._stateStack.includes(name)) {
+                this._activateStateEventListeners(this.current);
+                this._activateStateKeyListeners(this.current);
+            }
+            return;
+        }
+
+        if (mode === 'reenter') {
+            // Runs as a replace without an effect or middleware, so failing hooks are recovered from like in any other transition.
+            const transition: TransitionDescription = { kind: 'replace', from: name, to: name, effectOwner: name, transition: null, effectName: null, durationMs: 0, params: {}, payload: this.currentPayload };
+            await this._executeTransition(transition, async (onError, payload) => {
+                this._deactivateStateEventListeners();
+                this._deactivateStateKeyListeners();
+                await this._exitState(name, name, onError, previousConfig);
+                this._activateStateEventListeners(name);
+                this._activateStateKeyListeners(name);
+                this._updateUiVisibility();
+                await this._enterState(name, payload, onError);
+            });
+        } else {
+            this._activateStateEventListeners(name);
+            this._activateStateKeyListeners(name);
+            this._updateUiVisibility();
+        }
+        FMLog.log('state', `Hot-swapped state '${name}' (${mode}).`);
+    }
+
+    /** Merges a raw state definition with the definitions of its base states, wherever they are in the registration order. */
     private resolveInheritance(config: FocusStateConfig, visited = new Set<string>()): FocusStateConfig {
         if (!config.extends) {
             return config;
@@ -349,33 +1451,227 @@ by dbr
             return { ...config, extends: undefined }; // Prevent infinite loop
         }
 
-        const parentConfig = this.states.get(parentName);
+        const parentConfig = this.definitions.get(parentName);
 
         if (!parentConfig) {
-            FMLog.log('error', `Base state '${parentName}' not found. It must be registered before the states that extend it.`);
-            return { ...config, extends: undefined }; // Return child config without inheritance
+            // Merged in once the base state is registered.
+            FMLog.log('state', `Base state '${parentName}' is not registered yet.`);
+            return config;
         }
 
         const resolvedParent = this.resolveInheritance(parentConfig, new Set([...visited, parentName]));
         return this.mergeConfigs(resolvedParent, config);
     }
 
+    /** This manager and the ones whose listeners also hear about its transitions: the main region, and the parents of a child machine. */
+    private _listeningManagers(): FocusManager<any, any>[] {
+        const upstream = this._host ?? this._parent;
+        return upstream ? [this, ...upstream._listeningManagers()] : [this];
+    }
+
     private _emitSwitchEvent(newState: string, oldState: string | null) {
-        for (const listener of this.switchListeners) {
+        const listeners = this._listeningManagers().flatMap(manager => manager.switchListeners);
+        for (const listener of listeners) {
             try {
-                listener(newState, oldState);
+                listener(newState, oldState, this._regionName);
             } catch (e) {
                 FMLog.log('error', "Error in onSwitch listener", e);
             }
         }
     }
 
-    private async _exitState(stateNameToExit: string, nextStateName: string): Promise<void> {
-        const oldStateConfig = this.states.get(stateNameToExit);
-        if (!oldStateConfig) return;
+    /** Emits a lifecycle event on `events` for the running transition. Nothing is emitted outside a transition. */
+    private _emitLifecycleEvent(eventName: keyof FocusLifecycleEvents, state: string) {
+        const checkpoint = this._checkpoint;
+        if (!checkpoint) return;
+        const { kind, from, to, payload, region } = checkpoint.context;
+        const context: FocusLifecycleContext = {
+            kind, from, to, payload, region, state,
+            stack: [...this._stateStack],
+            startedAt: checkpoint.startedAt,
+            elapsedMs: performance.now() - checkpoint.startedAt,
+            effect: checkpoint.effectName,
+            effectDurationMs: checkpoint.effectName ? checkpoint.durationMs : 0,
+        };
+        (this._events as FocusEventBus).emit(eventName, context);
+    }
+
+    private _emitTransitionBlocked(info: FocusTransitionBlockedInfo) {
+        const blocker = info.guard === 'middleware' ? `middleware '${info.blockedBy}'` : `${info.guard} guard of '${info.blockedBy}'`;
+        FMLog.log('state', `Transition '${info.kind}' from '${info.from}' to '${info.to}' in region '${info.region}' blocked by ${blocker}.`);
+        const listeners = this._listeningManagers().flatMap(manager => manager.blockedListeners);
+        for (const listener of listeners) {
+            try {
+                listener(info);
+            } catch (e) {
+                FMLog.log('error', "Error in onTransitionBlocked listener", e);
+            }
+        }
+    }
+
+    /**
+     * Enforces the transition table declared with `allowTo()` and `allowPushOf()`.
+     * @throws {FocusTransitionNotAllowedError} In strict mode, if the transition is not declared.
+     */
+    private _checkTransitionAllowed(kind: 'switch' | 'push', to: string) {
+        const from = this.current;
+        if (!from || this._historyNavigationIndex !== null || this._restoring || this._recovering) return;
+
+        const config = this.states.get(from);
+        const allowed = kind === 'switch' ? config?.allowedSwitches : config?.allowedPushes;
+        if (allowed?.includes(to)) return;
+
+        if (this.strictTransitions) {
+            throw new FocusTransitionNotAllowedError(kind, from, to, this._regionName);
+        }
+        if (config?.allowedSwitches?.length || config?.allowedPushes?.length) {
+            FMLog.log('warn', `Undeclared transition '${kind}' from '${from}' to '${to}'.`);
+        }
+    }
+
+    /**
+     * Runs the `canExit` guards of the states being left (top first), then the `canEnter`
+     * guard of the state being entered. Nothing has been torn down yet when this runs.
+     * @returns True if every guard allowed the transition.
+     */
+    private async _checkGuards(kind: FocusTransitionKind, exiting: string[], entering: string | null, to: string, payload?: any): Promise<boolean> {
+        if (this._recovering) return true; // Broken states don't get to veto the way out.
+        const from = this.current;
+        const block = (blockedBy: string, guard: 'canEnter' | 'canExit', error?: unknown) => {
+            this._emitTransitionBlocked({ kind, from, to, blockedBy, region: this._regionName, guard, payload, error });
+            return false;
+        };
 
-        // 1. Call the onExit callback
-        await oldStateConfig.onExit?.(nextStateName);
+        for (const stateName of exiting) {
+            const canExit = this.states.get(stateName)?.canExit;
+            if (!canExit) continue;
+            try {
+                if (!(await canExit(to))) return block(stateName, 'canExit');
+            } catch (e) {
+                FMLog.log('error', `canExit guard of state '${stateName}' threw. Treating it as a veto.`, e);
+                return block(stateName, 'canExit', e);
+            }
+        }
+
+        const canEnter = entering ? this.states.get(entering)?.canEnter : undefined;
+        if (entering && canEnter) {
+            try {
+                if (!(await canEnter(payload, from))) return block(entering, 'canEnter');
+            } catch (e) {
+                FMLog.log('error', `canEnter guard of state '${entering}' threw. Treating it as a veto.`, e);
+                return block(entering, 'canEnter', e);
+            }
+        }
+
+        return true;
+    }
+
+    /** The index `back()` navigates to. If the current state was not recorded, its entry is the one to return to. */
+    private _historyBackIndex(): number {
+        const cursorIsCurrent = this._history[this._historyIndex]?.name === this.current;
+        return cursorIsCurrent ? this._historyIndex - 1 : this._historyIndex;
+    }
+
+    private _recordHistory(kind: 'switch' | 'push', name: string, payload: any) {
+        if (this._historyNavigationIndex !== null) {
+            this._historyIndex = this._historyNavigationIndex;
+            return;
+        }
+        if (this.states.get(name)?.excludeFromHistory) return;
+
+        // A new step discards everything that could have been redone with forward().
+        this._history.splice(this._historyIndex + 1);
+        this._history.push({ kind, name, payload });
+        if (this._history.length > this.historyLimit) {
+            this._history.splice(0, this._history.length - this.historyLimit);
+        }
+        this._historyIndex = this._history.length - 1;
+    }
+
+    private _recordPop(resumedStateName: string, count = 1) {
+        if (this._historyNavigationIndex !== null) {
+            this._historyIndex = this._historyNavigationIndex;
+            return;
+        }
+        // A plain pop() is a step back if the state below is one of the previous `count` entries.
+        if (this._history[this._historyIndex]?.name === resumedStateName) return;
+        for (let steps = 1; steps <= count; steps++) {
+            if (this._history[this._historyIndex - steps]?.name === resumedStateName) {
+                this._historyIndex -= steps;
+                return;
+            }
+        }
+    }
+
+    /** A replace overwrites the replaced state's entry, so `back()` skips over it. */
+    private _recordReplace(replacedStateName: string, name: string, payload: any) {
+        const entry = this._history[this._historyIndex];
+        if (this._historyNavigationIndex !== null || entry?.name !== replacedStateName) {
+            this._recordHistory(this._stateStack.length > 1 ? 'push' : 'switch', name, payload);
+            return;
+        }
+
+        // A new step discards everything that could have been redone with forward().
+        this._history.splice(this._historyIndex + 1);
+        if (this.states.get(name)?.excludeFromHistory) {
+            this._history.pop();
+            this._historyIndex--;
+        } else {
+            this._history[this._historyIndex] = { kind: entry.kind, name, payload };
+        }
+    }
+
+    /**
+     * Runs a state's `onEnter` hooks as the loading phase of the running transition. The loading view
+     * only appears if a transition effect covers the screen and the hooks outlast `loadingDelayMs`.
+     */
+    private async _enterState(name: string, payload: any, onError?: FocusHookErrorHandler): Promise<void> {
+        const config = this.states.get(name)!;
+        const checkpoint = this._checkpoint;
+        const missingBase = this._missingBase(name);
+        if (missingBase) {
+            FMLog.log('error', `Entering state '${name}' without its base: '${missingBase}' is not registered. Check the name passed to extends().`);
+        }
+        const viewName = config.loadingViewName ?? this.loadingView;
+        const view = checkpoint?.covered && viewName !== 'none' ? FocusManager.loadingViews.get(viewName) ?? null : null;
+        if (checkpoint?.covered && viewName !== 'none' && !view) {
+            FMLog.log('warn', `Loading view '${viewName}' not found.`);
+        }
+
+        checkpoint?.touched.set(this._stateStack.length - 1, 'entered');
+        const loading = new FocusLoadingPhase(view, FocusManager.transitionLayer, { kind: checkpoint?.context.kind ?? 'switch', state: name, region: this._regionName }, this.loadingDelayMs, this.loadingMinDisplayMs);
+        try {
+            await config.onEnter?.(payload, this.uiLayerManager, onError, loading.progress);
+        } catch (e) {
+            await loading.finish(true);
+            throw e;
+        }
+        await loading.finish();
+        this._emitLifecycleEvent('focus:enter', name);
+    }
+
+    private async _pauseState(name: string, coveringStateName: string, onError?: FocusHookErrorHandler): Promise<void> {
+        await this.states.get(name)?.onPause?.(coveringStateName, onError);
+        this._emitLifecycleEvent('focus:pause', name);
+    }
+
+    private async _resumeState(name: string, revealingStateName: string, onError?: FocusHookErrorHandler): Promise<void> {
+        await this.states.get(name)?.onResume?.(revealingStateName, onError);
+        this._emitLifecycleEvent('focus:resume', name);
+    }
+
+    private async _exitState(stateNameToExit: string, nextStateName: string, onError?: FocusHookErrorHandler, oldStateConfig = this.states.get(stateNameToExit)): Promise<void> {
+        if (!oldStateConfig) return;
+        this._checkpoint?.touched.set(this._stateStack.length - 1, 'exited');
+
+        // 1. Call the onExit callback. The state is torn down even if a hook throws.
+        let exitError: unknown = null;
+        try {
+            await oldStateConfig.onExit?.(nextStateName, onError);
+        } catch (e) {
+            exitError = e;
+        }
+        this.timers.cancelEntry(this._stateStack.length - 1);
 
         // 2. Automatically reset visible layers unless they are marked for preservation.
         const layersToPreserve = new Set(oldStateConfig.ui?.preserveOnExit || []);
@@ -399,98 +1695,128 @@ by dbr
                 layer.clearListeners();
             }
         });
+
+        this._emitLifecycleEvent('focus:exit', stateNameToExit);
+        if (exitError) throw exitError;
     }
 
     private _updateUiVisibility(): void {
         const currentStateName = this.current;
-        if (!currentStateName) {
-            // No active state, hide all managed layers
+        if (!currentStateName || this._suspended) {
+            // No active state, or a covered child machine: hide all managed layers
             for (const layerName of this.managedLayers) {
-                this.uiLayerManager.get(layerName)?.hide();
+                this.uiLayerManager.get(layerName)?.hide().uncover();
             }
             return;
         }
 
         const currentStateConfig = this.states.get(currentStateName)!;
-        const visibleLayers = new Set(currentStateConfig.ui?.visible || []);
+        const ownLayers = new Set(currentStateConfig.ui?.visible || []);
+        const visibleLayers = new Set(ownLayers);
+
+        // Overlays also show what is visible below them, down to the first state that isn't one.
+        for (let i = this.stateStack.length - 1; i > 0; i--) {
+            if (!this.states.get(this.stateStack[i])?.ui?.inheritVisibleFromBelow) break;
+            this.states.get(this.stateStack[i - 1])?.ui?.visible?.forEach(layerName => visibleLayers.add(layerName));
+        }
+        const treatment = currentStateConfig.ui?.coveredTreatment;
 
         for (const layerName of this.managedLayers) {
             const layer = this.uiLayerManager.get(layerName);
             if (layer) {
                 visibleLayers.has(layerName) ? layer.show() : layer.hide();
+                if (treatment && visibleLayers.has(layerName) && !ownLayers.has(layerName)) {
+                    layer.cover(treatment);
+                } else {
+                    layer.uncover();
+                }
             }
         }
     }
 
-    private static _initializeDefaultEffects() {
-        // --- FADE ---
-        this.registerTransitionEffect('fade', {
-            onExit: async (from, to, durationMs) => {
-                const layer = FocusManager.transitionLayer!;
-                const el = layer.element;
-                el.style.clipPath = ''; // Clear other effect properties
-                el.style.opacity = '0';
-                el.style.transition = `opacity ${durationMs}ms ease-in-out`;
-                layer.show();
-                await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r))); // Wait for styles to apply
-                el.style.opacity = '1';
-                await new Promise(r => setTimeout(r, durationMs));
+    private static _initializeDefaultLoadingViews() {
+        // --- BAR: a label above a thin progress bar, centered on the transition layer ---
+        let container: HTMLDivElement | null = null;
+        this.registerLoadingView('bar', {
+            show: (layer) => {
+                container = document.createElement('div');
+                container.className = 'focus-loading';
+                container.style.cssText = 'position: absolute; left: 50%; top: 50%; width: 40%; transform: translate(-50%, -50%); color: #ddd; font: 14px sans-serif; text-align: center;';
+                container.innerHTML = '<div class="focus-loading-label" style="margin-bottom: 8px;"></div>'
+                    + '<div style="height: 4px; background: rgba(255, 255, 255, 0.2);"><div class="focus-loading-fill" style="height: 100%; width: 0; background: #fff; transition: width 150ms linear;"></div></div>';
+                layer.append(container);
+            },
+            update: (fraction, label) => {
+                if (!container) return;
+                container.querySelector<HTMLElement>('.focus-loading-label')!.textContent = label ?? 'Loading...';
+                container.querySelector<HTMLElement>('.focus-loading-fill')!.style.width = `${Math.round(fraction * 100)}%`;
             },
-            onEnter: async (current, prev, durationMs) => {
-                const el = FocusManager.transitionLayer!.element;
-                el.style.opacity = '1';
-                await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
-                el.style.opacity = '0';
-                await new Promise(r => setTimeout(r, durationMs));
-                FocusManager.transitionLayer!.hide();
+            hide: () => {
+                container?.remove();
+                container = null;
             }
         });
+    }
 
-        // --- WIPE (Left to Right) ---
-        this.registerTransitionEffect('wipe', {
-            onExit: async (from, to, durationMs) => {
-                const layer = FocusManager.transitionLayer!;
-                const el = layer.element;
-                el.style.opacity = '1';
-                el.style.clipPath = 'polygon(0 0, 0 0, 0 100%, 0 100%)'; // Start as a line on the left
-                el.style.transition = `clip-path ${durationMs}ms ease-in-out`;
-                layer.show();
-                await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
-                el.style.clipPath = 'polygon(0 0, 100% 0, 100% 100%, 0 100%)'; // Wipe to full screen
-                await new Promise(r => setTimeout(r, durationMs));
-            },
-            onEnter: async (current, prev, durationMs) => {
-                const el = FocusManager.transitionLayer!.element;
-                el.style.clipPath = 'polygon(0 0, 100% 0, 100% 100%, 0 100%)'; // Start full screen
-                await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
-                el.style.clipPath = 'polygon(100% 0, 100% 0, 100% 100%, 100% 100%)'; // Wipe away to the right
-                await new Promise(r => setTimeout(r, durationMs));
-                FocusManager.transitionLayer!.hide();
+    private static _initializeDefaultEffects() {
+        this.registerTransitionEffect('fade', fadeEffect);
+        this.registerTransitionEffect('wipe', wipeEffect);
+        this.registerTransitionEffect('wipe-left', withParams(wipeEffect, { direction: 'left' }));
+        this.registerTransitionEffect('wipe-right', withParams(wipeEffect, { direction: 'right' }));
+        this.registerTransitionEffect('wipe-up', withParams(wipeEffect, { direction: 'up' }));
+        this.registerTransitionEffect('wipe-down', withParams(wipeEffect, { direction: 'down' }));
+        this.registerTransitionEffect('iris', irisEffect);
+        this.registerTransitionEffect('slide', slideEffect);
+        this.registerTransitionEffect('dissolve', dissolveEffect);
+        this.registerTransitionEffect('pixelate', pixelateEffect);
+        this.registerTransitionEffect('flash', flashEffect);
+    }
+
+    /**
+     * Adds a transition to the queue according to the given policy and starts processing the queue.
+     * @returns A promise that settles when this transition has finished or was cancelled.
+     */
+    private _enqueueTransition(transition: FocusPendingTransition, options: FocusTransitionOptions | undefined, run: () => Promise<void>): Promise<void> {
+        if (this._disposed && transition.kind !== 'clear') {
+            return Promise.reject(new FocusTransitionCancelledError(transition, 'the manager was disposed'));
+        }
+        const policy = options?.policy ?? this.transitionPolicy;
+        const busy = this._activeTransition !== null || this._transitionQueue.length > 0;
+
+        if (busy && policy === 'drop') {
+            FMLog.log('state', `Dropped '${transition.kind}' to '${transition.name ?? '(previous)'}' because a transition is already running.`);
+            return Promise.reject(new FocusTransitionCancelledError(transition, 'dropped while busy'));
+        }
+
+        if (policy === 'replace' && this._transitionQueue.length > 0) {
+            const replaced = this._transitionQueue.splice(0);
+            FMLog.log('state', `Replacing ${replaced.length} pending transition(s) with '${transition.kind}'.`);
+            for (const entry of replaced) {
+                entry.reject(new FocusTransitionCancelledError(entry, 'replaced by a newer transition'));
             }
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            this._transitionQueue.push({ ...transition, run, resolve, reject });
+            this._processTransitionQueue();
         });
+    }
 
-        // --- IRIS (Circle) ---
-        this.registerTransitionEffect('iris', {
-            onExit: async (from, to, durationMs) => {
-                const layer = FocusManager.transitionLayer!;
-                const el = layer.element;
-                el.style.opacity = '1';
-                el.style.clipPath = 'circle(0% at 50% 50%)'; // Start as a point
-                el.style.transition = `clip-path ${durationMs}ms ease-in-out`;
-                layer.show();
-                await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
-                el.style.clipPath = 'circle(75% at 50% 50%)'; // Grow to cover (75% is enough for corners)
-                await new Promise(r => setTimeout(r, durationMs));
-            },
-            onEnter: async (current, prev, durationMs) => {
-                const el = FocusManager.transitionLayer!.element;
-                el.style.clipPath = 'circle(75% at 50% 50%)'; // Start as full circle
-                await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
-                el.style.clipPath = 'circle(0% at 50% 50%)'; // Shrink to nothing
-                await new Promise(r => setTimeout(r, durationMs));
-                FocusManager.transitionLayer!.hide();
+    private async _processTransitionQueue(): Promise<void> {
+        if (this._activeTransition) return; // The running loop will pick up new entries.
+
+        while (this._transitionQueue.length > 0) {
+            const entry = this._transitionQueue.shift()!;
+            this._activeTransition = entry;
+            try {
+                await entry.run();
+                entry.resolve();
+            } catch (e) {
+                entry.reject(e);
+            } finally {
+                this._activeTransition = null;
             }
-        });
+        }
     }
 
     /**
@@ -498,47 +1824,58 @@ by dbr
      * This will trigger the onExit hook of all active states and the onEnter hook of the new state.
      * @param name The name of the state to switch to.
      * @param payload An optional data payload to pass to the new state's `onEnter` hooks.
+     * @param options Per-call options such as the concurrency `policy`.
+     * @returns A promise that resolves once this transition has finished. Don't await it from
+     * inside a state hook, since the queue runs transitions one at a time.
      */
-    public async switch(name: string, payload?: any): Promise<void> {
+    public switch<K extends FocusStateName<TStates>>(name: K, ...[payload, options]: TransitionArgs<TStates[K]>): Promise<void> {
+        return this._reportCall('switch', [name, payload, options], () => this._enqueueTransition({ kind: 'switch', name, payload }, options, () => this._performSwitch(name, payload, options)));
+    }
+
+    private async _performSwitch(name: FocusStateName<TStates>, payload?: any, options?: FocusTransitionOptions): Promise<void> {
         if (this.current === name && this._stateStack.length === 1) return;
         if (!this.states.has(name)) {
             FMLog.log('error', `Attempted to switch to unregistered state '${name}'.`);
             return;
         }
+        this._checkTransitionAllowed('switch', name);
 
         await new Promise(resolve => RE.onNextFrame(resolve as () => void));
 
-        const previousStateName = this.current;
-        const newStateConfig = this.states.get(name)!;
-        const transition = this.getTransitionEffect(newStateConfig.transitionEffectName);
-        const transitionDuration = newStateConfig.transitionDuration ?? 300;
+        // --- 0. Ask every state on the stack and the new state for permission ---
+        if (!(await this._checkGuards('switch', [...this._stateStack].reverse(), name, name, payload))) return;
 
-        // --- 1. Deactivate old listeners & Run Exit Transition ---
-        this._deactivateStateEventListeners();
-        this._deactivateStateKeyListeners();
-        if (transition) {
-            await transition.onExit(previousStateName, name, transitionDuration);
-        }
-
-        // --- 2. Exit all current states ---
-        while (this._stateStack.length > 0) {
-            const stateToExitName = this._stateStack[this._stateStack.length - 1]; // Peek
-            await this._exitState(stateToExitName, name); // Exit hook gets final destination
-            this._stateStack.pop();
-        }
-
-        // --- 3. Enter New State ---
-        this._stateStack.push(name);
-        this._emitSwitchEvent(name, previousStateName);
-        this._activateStateEventListeners(name);
-        this._activateStateKeyListeners(name);
-        this._updateUiVisibility();
-        await newStateConfig.onEnter?.(payload, this.uiLayerManager);
+        const previousStateName = this.current;
+        const { transition, effectName, durationMs, params } = this._resolveTransition(previousStateName, name, name, options);
+
+        await this._runTransition({ kind: 'switch', from: previousStateName, to: name, effectOwner: name, transition, effectName, durationMs, params, payload }, async (onError, payload) => {
+            // --- 1. Deactivate old listeners & Run Exit Transition ---
+            this._deactivateStateEventListeners();
+            this._deactivateStateKeyListeners();
+            await this._playEffect('onExit', (effect, durationMs, context) => effect.onExit(previousStateName, name, durationMs, context));
+
+            // --- 2. Exit all current states ---
+            // Paused states are exited directly; they are not resumed first.
+            while (this._stateStack.length > 0) {
+                const stateToExitName = this._stateStack[this._stateStack.length - 1]; // Peek
+                await this._exitState(stateToExitName, name, onError); // Exit hook gets final destination
+                this._stateStack.pop();
+                this._stackPayloads.pop();
+            }
 
-        // --- 3. Run Enter Transition ---
-        if (transition) {
-            await transition.onEnter(name, previousStateName, transitionDuration);
-        }
+            // --- 3. Enter New State ---
+            this._stateStack.push(name);
+            this._stackPayloads.push(payload);
+            this._recordHistory('switch', name, payload);
+            this._emitSwitchEvent(name, previousStateName);
+            this._activateStateEventListeners(name);
+            this._activateStateKeyListeners(name);
+            this._updateUiVisibility();
+            await this._enterState(name, payload, onError);
+
+            // --- 3. Run Enter Transition ---
+            await this._playEffect('onEnter', (effect, durationMs, context) => effect.onEnter(name, previousStateName, durationMs, context));
+        });
     }
 
     /**
@@ -546,83 +1883,721 @@ by dbr
      * The previous state is suspended (UI hidden) but not exited (logic/prefabs remain).
      * @param name The name of the state to push.
      * @param payload An optional data payload to pass to the new state's `onEnter` hooks.
+     * @param options Per-call options such as the concurrency `policy`.
+     * @returns A promise that resolves once this transition has finished.
      */
-    public async push(name: string, payload?: any): Promise<void> {
+    public push<K extends FocusStateName<TStates>>(name: K, ...[payload, options]: TransitionArgs<TStates[K]>): Promise<void> {
+        return this._reportCall('push', [name, payload, options], () => this._enqueueTransition({ kind: 'push', name, payload }, options, () => this._performPush(name, payload, options)));
+    }
+
+    private async _performPush(name: FocusStateName<TStates>, payload?: any, options?: FocusTransitionOptions): Promise<void> {
         if (this.current === name) return;
         if (!this.states.has(name)) {
             FMLog.log('error', `Attempted to push unregistered state '${name}'.`);
             return;
         }
+        const duplicates = this._stateStack.includes(name) ? (options?.duplicates ?? this.duplicatePolicy) : 'allow';
+        if (duplicates === 'reject') {
+            throw new FocusDuplicateStateError(name, this._regionName);
+        }
+        this._checkTransitionAllowed('push', name);
+        if (duplicates === 'bringToTop') {
+            return this._performBringToTop(name, options);
+        }
 
         await new Promise(resolve => RE.onNextFrame(resolve as () => void));
 
+        // --- 0. The covered state is not exited, so only the new state's guard applies ---
+        if (!(await this._checkGuards('push', [], name, name, payload))) return;
+
         const previousStateName = this.current;
-        const newStateConfig = this.states.get(name)!;
-        const transition = this.getTransitionEffect(newStateConfig.transitionEffectName);
-        const transitionDuration = newStateConfig.transitionDuration ?? 300;
+        const { transition, effectName, durationMs, params } = this._resolveTransition(previousStateName, name, name, options);
+
+        await this._runTransition({ kind: 'push', from: previousStateName, to: name, effectOwner: name, transition, effectName, durationMs, params, payload }, async (onError, payload) => {
+            // --- 1. Deactivate old listeners & Run Exit Transition ---
+            this._deactivateStateEventListeners();
+            this._deactivateStateKeyListeners();
+            await this._playEffect('onExit', (effect, durationMs, context) => effect.onExit(previousStateName, name, durationMs, context));
+
+            // --- 2. Enter New State ---
+            // The state below is not exited, just suspended (listeners deactivated, UI hidden).
+            if (previousStateName) {
+                this._checkpoint!.paused = previousStateName;
+                await this._pauseState(previousStateName, name, onError);
+            }
+            this._stateStack.push(name);
+            this._stackPayloads.push(payload);
+            this._recordHistory('push', name, payload);
+            this._emitSwitchEvent(name, previousStateName);
+            this._activateStateEventListeners(name);
+            this._activateStateKeyListeners(name);
+            this._updateUiVisibility(); // Hides old UI, shows new
+            await this._enterState(name, payload, onError);
+
+            // --- 3. Run Enter Transition ---
+            await this._playEffect('onEnter', (effect, durationMs, context) => effect.onEnter(name, previousStateName, durationMs, context));
+        });
+    }
 
-        // --- 1. Deactivate old listeners & Run Exit Transition ---
-        this._deactivateStateEventListeners();
-        this._deactivateStateKeyListeners();
-        if (transition) {
-            await transition.onExit(previousStateName, name, transitionDuration);
-        }
+    /** Moves a state that is already on the stack to the top, pausing the current state and resuming the moved one. */
+    private async _performBringToTop(name: string, options?: FocusTransitionOptions): Promise<void> {
+        await new Promise(resolve => RE.onNextFrame(resolve as () => void));
+
+        // Nothing is entered or exited, so no guard applies.
+        const previousStateName = this.current!;
+        const { transition, effectName, durationMs, params } = this._resolveTransition(previousStateName, name, name, options);
+
+        await this._runTransition({ kind: 'push', from: previousStateName, to: name, effectOwner: name, transition, effectName, durationMs, params }, async (onError) => {
+            // --- 1. Deactivate old listeners & Run Exit Transition ---
+            this._deactivateStateEventListeners();
+            this._deactivateStateKeyListeners();
+            await this._playEffect('onExit', (effect, durationMs, context) => effect.onExit(previousStateName, name, durationMs, context));
+
+            // --- 2. Pause the top state and move the existing instance above it ---
+            this._checkpoint!.paused = previousStateName;
+            await this._pauseState(previousStateName, name, onError);
+            const index = this._stateStack.indexOf(name);
+            const [payload] = this._stackPayloads.splice(index, 1);
+            this._stateStack.splice(index, 1);
+            this._stateStack.push(name);
+            this._stackPayloads.push(payload);
+            this.timers.moveEntryToTop(index, this._stateStack.length - 1);
+
+            // --- 3. Resume it ---
+            await this._resumeState(name, previousStateName, onError);
+            this._recordHistory('push', name, payload);
+            this._emitSwitchEvent(name, previousStateName);
+            this._activateStateEventListeners(name);
+            this._activateStateKeyListeners(name);
+            this._updateUiVisibility();
+
+            // --- 4. Run Enter Transition ---
+            await this._playEffect('onEnter', (effect, durationMs, context) => effect.onEnter(name, previousStateName, durationMs, context));
+        });
+    }
 
-        // --- 2. Enter New State ---
-        // The state below is not exited, just suspended (listeners deactivated, UI hidden).
-        this._stateStack.push(name);
-        this._emitSwitchEvent(name, previousStateName);
-        this._activateStateEventListeners(name);
-        this._activateStateKeyListeners(name);
-        this._updateUiVisibility(); // Hides old UI, shows new
-        await newStateConfig.onEnter?.(payload, this.uiLayerManager);
+    /**
+     * Replaces the current state with another one, in a single transition. The current state is exited,
+     * but unlike `pop()` followed by `push()`, the state below is neither resumed nor paused again.
+     * With an empty stack, this is the same as `switch()`.
+     * @param name The name of the state to enter.
+     * @param payload An optional data payload to pass to the new state's `onEnter` hooks.
+     * @param options Per-call options such as the concurrency `policy`.
+     * @returns A promise that resolves once this transition has finished.
+     */
+    public replace<K extends FocusStateName<TStates>>(name: K, ...[payload, options]: TransitionArgs<TStates[K]>): Promise<void> {
+        return this._reportCall('replace', [name, payload, options], () => this._enqueueTransition({ kind: 'replace', name, payload }, options, () => this._performReplace(name, payload, options)));
+    }
 
-        // --- 3. Run Enter Transition ---
-        if (transition) {
-            await transition.onEnter(name, previousStateName, transitionDuration);
+    private async _performReplace(name: FocusStateName<TStates>, payload?: any, options?: FocusTransitionOptions): Promise<void> {
+        if (this._stateStack.length === 0) return this._performSwitch(name, payload, options);
+        if (this.current === name) return;
+        if (!this.states.has(name)) {
+            FMLog.log('error', `Attempted to replace the current state with unregistered state '${name}'.`);
+            return;
         }
+        this._checkTransitionAllowed('switch', name);
+
+        await new Promise(resolve => RE.onNextFrame(resolve as () => void));
+
+        // --- 0. The replaced state and the new state are asked; the state below stays as it is ---
+        if (!(await this._checkGuards('replace', [this.current!], name, name, payload))) return;
+
+        const replacedStateName = this.current!;
+        const belowStateName = this._stateStack[this._stateStack.length - 2] ?? null;
+        const { transition, effectName, durationMs, params } = this._resolveTransition(replacedStateName, name, name, options);
+
+        await this._runTransition({ kind: 'replace', from: replacedStateName, to: name, effectOwner: name, transition, effectName, durationMs, params, payload }, async (onError, payload) => {
+            // --- 1. Deactivate old listeners & Run Exit Transition ---
+            this._deactivateStateEventListeners();
+            this._deactivateStateKeyListeners();
+            await this._playEffect('onExit', (effect, durationMs, context) => effect.onExit(replacedStateName, name, durationMs, context));
+
+            // --- 2. Exit the top state ---
+            this._checkpoint!.paused = belowStateName;
+            await this._exitState(replacedStateName, name, onError);
+            this._stateStack.pop();
+            this._stackPayloads.pop();
+
+            // --- 3. Enter the new state in its place ---
+            this._stateStack.push(name);
+            this._stackPayloads.push(payload);
+            this._recordReplace(replacedStateName, name, payload);
+            this._emitSwitchEvent(name, replacedStateName);
+            this._activateStateEventListeners(name);
+            this._activateStateKeyListeners(name);
+            this._updateUiVisibility();
+            await this._enterState(name, payload, onError);
+
+            // --- 4. Run Enter Transition ---
+            await this._playEffect('onEnter', (effect, durationMs, context) => effect.onEnter(name, replacedStateName, durationMs, context));
+        });
     }
 
     /**
      * Pops the current state from the stack, exiting it and resuming the state below.
-     * This will trigger the onExit hook of the popped state. The state below is not re-entered.
+     * This will trigger the onExit hook of the popped state. The state below is not re-entered,
+     * but its onResume hooks run once it is on top again.
+     * @param options Per-call options such as the concurrency `policy`.
+     * @returns A promise that resolves once this transition has finished.
      */
-    public async pop(): Promise<void> {
+    public pop(options?: FocusTransitionOptions): Promise<void> {
+        return this._reportCall('pop', [options], () => this._enqueueTransition({ kind: 'pop', name: null }, options, () => this._performPop(options)));
+    }
+
+    /**
+     * Pops every state above the topmost instance of a state, in a single transition.
+     * Each popped state's onExit hooks receive the state being resumed, which does nothing if it is already on top.
+     * @param name The state to return to.
+     * @param options Per-call options such as the concurrency `policy`.
+     * @returns A promise that resolves once this transition has finished.
+     */
+    public popTo(name: FocusStateName<TStates>, options?: FocusTransitionOptions): Promise<void> {
+        return this._reportCall('popTo', [name, options], () => this._enqueueTransition({ kind: 'pop', name }, options, async () => {
+            const index = this._stateStack.lastIndexOf(name);
+            if (index < 0) {
+                FMLog.log('warn', `Cannot pop to '${name}' because it is not on the stack.`);
+                return;
+            }
+            if (index < this._stateStack.length - 1) {
+                await this._performPop(options, this._stateStack.length - 1 - index);
+            }
+        }));
+    }
+
+    /**
+     * Pops several states at once, in a single transition. The states in between exit without being resumed.
+     * @param count The number of states to pop. At least one state always stays on the stack.
+     * @param options Per-call options such as the concurrency `policy`.
+     * @returns A promise that resolves once this transition has finished.
+     */
+    public popMany(count: number, options?: FocusTransitionOptions): Promise<void> {
+        return this._reportCall('popMany', [count, options], () => this._enqueueTransition({ kind: 'pop', name: null }, options, () => this._performPop(options, count)));
+    }
+
+    private async _performPop(options?: FocusTransitionOptions, count = 1): Promise<void> {
         if (this._stateStack.length <= 1) {
             FMLog.log('warn', `Cannot pop the last state from the stack. Use switch() to change the base state.`);
             return;
         }
+        if (!Number.isInteger(count) || count < 1 || count >= this._stateStack.length) {
+            FMLog.log('warn', `Cannot pop ${count} state(s) from a stack of ${this._stateStack.length}. At least one state must remain.`);
+            return;
+        }
 
         await new Promise(resolve => RE.onNextFrame(resolve as () => void));
 
-        const stateToPopName = this.current!;
-        const stateToResumeName = this._stateStack[this.stateStack.length - 2];
+        const statesToPop = this._stateStack.slice(-count).reverse(); // Top first
+        const stateToPopName = statesToPop[0];
+        const coveringStateName = statesToPop[statesToPop.length - 1]; // The state directly above the resumed one
+        const stateToResumeName = this._stateStack[this._stateStack.length - 1 - count];
+
+        // --- 0. The resumed state is not re-entered, so only the popped states' guards apply ---
+        if (!(await this._checkGuards('pop', statesToPop, null, stateToResumeName))) return;
 
         // On pop, the transition is logically part of the state being removed.
-        const stateToPopConfig = this.states.get(stateToPopName)!;
-        const transition = this.getTransitionEffect(stateToPopConfig.transitionEffectName);
-        const transitionDuration = stateToPopConfig.transitionDuration ?? 300;
+        const { transition, effectName, durationMs, params } = this._resolveTransition(stateToPopName, stateToResumeName, stateToPopName, options);
+
+        await this._runTransition({ kind: 'pop', from: stateToPopName, to: stateToResumeName, effectOwner: stateToPopName, transition, effectName, durationMs, params }, async (onError) => {
+            // --- 1. Deactivate old listeners & Run Exit Transition ---
+            this._deactivateStateEventListeners();
+            this._deactivateStateKeyListeners();
+            await this._playEffect('onExit', (effect, durationMs, context) => effect.onExit(stateToPopName, stateToResumeName, durationMs, context));
+
+            // --- 2. Exit the popped states, top first. Each exit hook gets the final destination ---
+            for (const stateName of statesToPop) {
+                await this._exitState(stateName, stateToResumeName, onError);
+                this._stateStack.pop();
+                this._stackPayloads.pop();
+            }
+
+            // --- 3. Resume New Top State ---
+            await this._resumeState(stateToResumeName, coveringStateName, onError);
+            this._recordPop(stateToResumeName, count);
+            this._emitSwitchEvent(this.current!, stateToPopName);
+            this._activateStateEventListeners(this.current!);
+            this._activateStateKeyListeners(this.current!);
+            this._updateUiVisibility(); // Reveal the UI for the state that is now on top.
+
+            // --- 4. Run Enter Transition ---
+            await this._playEffect('onEnter', (effect, durationMs, context) => effect.onEnter(this.current!, stateToPopName, durationMs, context));
+        });
+    }
+
+    /**
+     * Passes a transition through the middleware added with `use()`, then runs it.
+     * Middleware is skipped while recovering, so it can't keep the manager in a broken state.
+     * @throws {FocusTransitionError} After recovering, unless the strategy is 'continue'.
+     */
+    private async _runTransition(transition: TransitionDescription, body: TransitionBody): Promise<void> {
+        const chain = this._recovering ? [] : (this._host ? [...this.middleware, ...this._host.middleware] : this.middleware);
+        if (chain.length === 0) return this._executeTransition(transition, body);
+
+        const context: FocusMiddlewareContext = {
+            kind: transition.kind,
+            from: transition.from,
+            to: transition.to,
+            payload: transition.payload,
+            region: this._regionName,
+            stackBefore: [...this._stateStack],
+            stackAfter: null,
+            manager: this,
+        };
+        let blockedBy: string | null = null;
+
+        const dispatch = async (index: number): Promise<void> => {
+            if (index === chain.length) {
+                try {
+                    await this._executeTransition({ ...transition, payload: context.payload }, body);
+                } finally {
+                    context.stackAfter = [...this._stateStack];
+                }
+                return;
+            }
+
+            const { name, run } = chain[index];
+            let called = false;
+            await run(context, () => {
+                if (called) return Promise.reject(new Error(`Middleware '${name}' called next() more than once.`));
+                called = true;
+                return dispatch(index + 1);
+            });
+            if (!called) blockedBy = name;
+        };
+        await dispatch(0);
+
+        if (blockedBy !== null) {
+            this._emitTransitionBlocked({ kind: transition.kind, from: transition.from, to: transition.to, blockedBy, region: this._regionName, guard: 'middleware', payload: context.payload });
+        }
+    }
+
+    /**
+     * Exits every state on the stack, top first, leaving the manager empty. Used to shut down a child machine and by `dispose()`.
+     * Every state is torn down even if a hook throws; the first error is rethrown afterwards.
+     */
+    private async _performClear(nextStateName: string): Promise<void> {
+        if (this._stateStack.length === 0) return;
 
-        // --- 1. Deactivate old listeners & Run Exit Transition ---
         this._deactivateStateEventListeners();
         this._deactivateStateKeyListeners();
-        if (transition) {
-            await transition.onExit(stateToPopName, stateToResumeName, transitionDuration);
+
+        let firstError: unknown = null;
+        while (this._stateStack.length > 0) {
+            try {
+                await this._exitState(this.current!, nextStateName);
+            } catch (e) {
+                FMLog.log('error', `Error while exiting state '${this.current}' of '${this._regionName}'.`, e);
+                firstError ??= e;
+            }
+            this._stateStack.pop();
+            this._stackPayloads.pop();
         }
+        this._updateUiVisibility();
+        FMLog.log('state', `Exited every state of '${this._regionName}'.`);
 
-        // --- 2. Exit Top State ---
-        await this._exitState(stateToPopName, stateToResumeName);
-        this._stateStack.pop();
+        if (firstError) throw firstError;
+    }
 
-        // --- 3. Resume New Top State ---
-        this._emitSwitchEvent(this.current!, stateToPopName);
-        this._activateStateEventListeners(this.current!);
-        this._activateStateKeyListeners(this.current!);
-        this._updateUiVisibility(); // Reveal the UI for the state that is now on top.
+    /**
+     * Runs the part of a transition that changes the stack, and recovers according to
+     * `errorRecovery` if a hook or the transition effect throws.
+     * @throws {FocusTransitionError} After recovering, unless the strategy is 'continue'.
+     */
+    private async _executeTransition(transition: TransitionDescription, body: TransitionBody): Promise<void> {
+        const { payload, params, ...description } = transition;
+        const checkpoint: TransitionCheckpoint = {
+            ...description,
+            context: { kind: transition.kind, from: transition.from, to: transition.to, payload, durationMs: transition.durationMs, region: this._regionName, params, surface: createTransitionSurface() },
+            stack: [...this._stateStack],
+            payloads: [...this._stackPayloads],
+            history: [...this._history],
+            historyIndex: this._historyIndex,
+            touched: new Map(),
+            paused: null,
+            covered: false,
+            startedAt: performance.now(),
+        };
+
+        const outerCheckpoint = this._checkpoint;
+        this._checkpoint = checkpoint;
+        try {
+            const onError = this.errorRecovery === 'continue'
+                ? (error: FocusHookError) => { this._reportTransitionError(checkpoint, error, 'continue'); }
+                : undefined;
+            this._emitLifecycleEvent('focus:beforeTransition', checkpoint.to);
+            await body(onError, payload);
+            this._emitLifecycleEvent('focus:afterTransition', checkpoint.to);
+        } catch (e) {
+            await this._recoverFromTransitionError(checkpoint, e);
+        } finally {
+            this._checkpoint = outerCheckpoint;
+        }
+    }
+
+    /** Plays one half of the running transition's effect, attributing errors to the state that owns the effect. */
+    private async _playEffect(phase: 'onExit' | 'onEnter', play: (effect: FocusTransitionEffect, durationMs: number, context: FocusTransitionContext) => Promise<void>): Promise<void> {
+        const checkpoint = this._checkpoint!;
+        if (!checkpoint.transition) return;
+
+        if (phase === 'onExit') {
+            checkpoint.covered = true;
+            FocusManager.transitionLayer?.element.appendChild(checkpoint.context.surface);
+            FocusManager.transitionLayer?.show();
+        }
+        try {
+            await play(checkpoint.transition, checkpoint.durationMs, checkpoint.context);
+        } catch (e) {
+            const error = new FocusHookError(checkpoint.effectOwner, 'effect', -1, e);
+            if (this.errorRecovery !== 'continue') throw error;
+            this._reportTransitionError(checkpoint, error, 'continue');
+            FocusManager._releaseTransitionLayer(checkpoint.context);
+        }
+        if (phase === 'onEnter') {
+            checkpoint.covered = false;
+            FocusManager._releaseTransitionLayer(checkpoint.context);
+        }
+    }
+
+    /** Removes a transition's surface, and hides the transition layer unless another region's effect still draws on it. */
+    private static _releaseTransitionLayer(context: FocusTransitionContext): void {
+        context.surface.remove();
+        const layer = FocusManager.transitionLayer;
+        if (layer && !layer.element.querySelector(':scope > .focus-transition-surface')) {
+            layer.hide();
+        }
+    }
+
+    private async _recoverFromTransitionError(checkpoint: TransitionCheckpoint, e: unknown): Promise<never> {
+        // A failure while entering the error state is handled by the transition that routed there.
+        if (this._recovering) throw e;
+
+        const errorState = this.onErrorState;
+        let recovery: FocusErrorRecovery = this.errorRecovery === 'errorState' ? 'errorState' : 'rollback'; // 'continue' only gets here for unexpected errors
+        if (recovery === 'errorState' && (!errorState || !this.states.has(errorState) || errorState === checkpoint.to)) {
+            FMLog.log('warn', `Cannot route to the error state ${errorState ? `'${errorState}'` : '(none set)'}. Rolling back instead.`);
+            recovery = 'rollback';
+        }
+        const info = this._reportTransitionError(checkpoint, e, recovery);
+
+        try {
+            if (recovery === 'errorState') {
+                // States whose exit already started are not exited a second time.
+                while (this.current && checkpoint.touched.get(this._stateStack.length - 1) === 'exited') {
+                    this._stateStack.pop();
+                    this._stackPayloads.pop();
+                }
+                this._recovering = true;
+                try {
+                    await this._performSwitch(errorState!, info);
+                } finally {
+                    this._recovering = false;
+                }
+            } else {
+                await this._rollback(checkpoint);
+            }
+        } catch (recoveryError) {
+            FMLog.log('error', `Recovering from the failed '${checkpoint.kind}' to '${checkpoint.to}' failed as well.`, recoveryError);
+        }
+
+        // Never leave the transition layer covering the screen.
+        if (checkpoint.covered && checkpoint.transition && recovery === 'rollback' && this.current) {
+            try {
+                await checkpoint.transition.onEnter(this.current, checkpoint.to, checkpoint.durationMs, checkpoint.context);
+            } catch (revealError) {
+                FMLog.log('error', `Transition effect of state '${checkpoint.effectOwner}' failed while revealing the screen.`, revealError);
+            }
+        }
+        FocusManager._releaseTransitionLayer(checkpoint.context);
+
+        throw new FocusTransitionError(info);
+    }
+
+    /**
+     * Puts the stack back the way it was before the failed transition: states the transition
+     * entered are exited, states it exited are entered again, and a state it paused is resumed.
+     * Hook errors during the rollback are logged and skipped.
+     */
+    private async _rollback(checkpoint: TransitionCheckpoint): Promise<void> {
+        const onError = (error: FocusHookError) => FMLog.log('error', `Ignoring error during rollback: ${error.message}`, error.cause);
+        const failedTop = this.current;
+
+        this._deactivateStateEventListeners();
+        this._deactivateStateKeyListeners();
+
+        // --- 1. Drop the states the transition entered or started to exit ---
+        const isIntact = (index: number) => index < checkpoint.stack.length
+            && this._stateStack[index] === checkpoint.stack[index]
+            && !checkpoint.touched.has(index);
+        while (this._stateStack.length > 0 && !isIntact(this._stateStack.length - 1)) {
+            const name = this.current!;
+            if (checkpoint.touched.get(this._stateStack.length - 1) !== 'exited') {
+                await this._exitState(name, checkpoint.from ?? name, onError);
+            }
+            this._stateStack.pop();
+            this._stackPayloads.pop();
+        }
+
+        // --- 2. Enter the exited states again, pausing each state that gets covered ---
+        let paused = checkpoint.paused;
+        for (let i = this._stateStack.length; i < checkpoint.stack.length; i++) {
+            const name = checkpoint.stack[i];
+            const below = this.current;
+            if (below && below !== paused) {
+                await this._pauseState(below, name, onError);
+            }
+            paused = null;
+            this._stateStack.push(name);
+            this._stackPayloads.push(checkpoint.payloads[i]);
+            await this._enterState(name, checkpoint.payloads[i], onError);
+        }
+
+        // --- 3. Resume the state the transition paused, if it is on top again ---
+        if (paused && this.current === paused) {
+            await this._resumeState(paused, checkpoint.to, onError);
+        }
+
+        this._history = checkpoint.history;
+        this._historyIndex = checkpoint.historyIndex;
+        if (this.current) {
+            this._activateStateEventListeners(this.current);
+            this._activateStateKeyListeners(this.current);
+        }
+        this._updateUiVisibility();
+        if (this.current && this.current !== failedTop) {
+            this._emitSwitchEvent(this.current, failedTop);
+        }
+        FMLog.log('state', `Rolled back to: ${this._stateStack.join(' > ') || '(empty)'}`);
+    }
+
+    private _reportTransitionError(checkpoint: TransitionCheckpoint, e: unknown, recovery: FocusErrorRecovery): FocusTransitionErrorInfo {
+        const hookError = e instanceof FocusHookError ? e : null;
+        const info: FocusTransitionErrorInfo = {
+            kind: checkpoint.kind,
+            from: checkpoint.from,
+            to: checkpoint.to,
+            region: this._regionName,
+            state: hookError?.state ?? null,
+            hook: hookError?.hook ?? null,
+            index: hookError?.index ?? -1,
+            error: hookError ? hookError.cause : e,
+            recovery,
+        };
+
+        FMLog.log('error', `Transition '${info.kind}' to '${info.to}' in region '${info.region}' failed. ${hookError ? hookError.message : String(e)} Recovery: ${recovery}.`, info.error);
+        const listeners = this._listeningManagers().flatMap(manager => manager.errorListeners);
+        for (const listener of listeners) {
+            try {
+                listener(info);
+            } catch (listenerError) {
+                FMLog.log('error', "Error in onTransitionError listener", listenerError);
+            }
+        }
+        return info;
+    }
+
+    /**
+     * Navigates to the previous entry in the navigation history, restoring its payload.
+     * If that entry is the state directly below the current one, it is popped; otherwise it is switched to.
+     * @param options Per-call options such as the concurrency `policy`.
+     * @returns A promise that resolves once this transition has finished.
+     */
+    public back(options?: FocusTransitionOptions): Promise<void> {
+        return this._reportCall('back', [options], () => this._enqueueTransition({ kind: 'back', name: null }, options, async () => {
+            const index = this._historyBackIndex();
+            const entry = this._history[index];
+            if (!entry) {
+                FMLog.log('warn', `Cannot go back: the navigation history has no earlier entry.`);
+                return;
+            }
+
+            this._historyNavigationIndex = index;
+            try {
+                if (this._stateStack[this._stateStack.length - 2] === entry.name) {
+                    await this._performPop(options);
+                } else {
+                    await this._performSwitch(entry.name, entry.payload, options);
+                }
+            } finally {
+                this._historyNavigationIndex = null;
+            }
+        }));
+    }
+
+    /**
+     * Re-applies the history entry that was last undone with `back()`.
+     * A pushed entry is pushed again on top of the current state; a switched entry is switched to.
+     * @param options Per-call options such as the concurrency `policy`.
+     * @returns A promise that resolves once this transition has finished.
+     */
+    public forward(options?: FocusTransitionOptions): Promise<void> {
+        return this._reportCall('forward', [options], () => this._enqueueTransition({ kind: 'forward', name: null }, options, async () => {
+            const index = this._historyIndex + 1;
+            const entry = this._history[index];
+            if (!entry) {
+                FMLog.log('warn', `Cannot go forward: the navigation history has no later entry.`);
+                return;
+            }
+
+            this._historyNavigationIndex = index;
+            try {
+                if (entry.kind === 'push' && this._history[this._historyIndex]?.name === this.current) {
+                    await this._performPush(entry.name, entry.payload, options);
+                } else {
+                    await this._performSwitch(entry.name, entry.payload, options);
+                }
+            } finally {
+                this._historyNavigationIndex = null;
+            }
+        }));
+    }
+
+    /** Forgets every history entry except the one for the current state. */
+    public clearHistory(): void {
+        const currentEntry = this._history[this._historyIndex];
+        this._history = currentEntry && currentEntry.name === this.current ? [currentEntry] : [];
+        this._historyIndex = this._history.length - 1;
+    }
+
+    private _serializePayload(stateName: string, payload: any): any {
+        const serialize = this.states.get(stateName)?.serializePayload;
+        return serialize && payload !== undefined ? serialize(payload) : payload;
+    }
+
+    private _deserializePayload(stateName: string, data: any): any {
+        const deserialize = this.states.get(stateName)?.deserializePayload;
+        return deserialize && data !== undefined ? deserialize(data) : data;
+    }
+
+    /**
+     * Describes the current stack, the payload each state was entered with, and the navigation
+     * history, in a JSON-serializable form. The stack is cut off at the first state marked
+     * `notRestorable()`. Payloads go through each state's `withPayloadSerializer()`, if any.
+     */
+    public snapshot(): FocusSnapshot {
+        const stack: FocusSnapshot['stack'] = [];
+        for (let i = 0; i < this._stateStack.length; i++) {
+            const name = this._stateStack[i];
+            if (this.states.get(name)?.notRestorable) break;
+            stack.push({ name, payload: this._serializePayload(name, this._stackPayloads[i]) });
+        }
+
+        return {
+            version: SNAPSHOT_VERSION,
+            region: this._regionName,
+            stack,
+            history: this._history.map(entry => ({ ...entry, payload: this._serializePayload(entry.name, entry.payload) })),
+            historyIndex: this._historyIndex,
+        };
+    }
+
+    /**
+     * Rebuilds the stack described by a snapshot. The bottom state is entered with `switch()`
+     * semantics and every state above it is pushed in order. The navigation history is replaced
+     * with the snapshot's. States that are no longer registered or are marked `notRestorable()`
+     * cut the restored stack short.
+     * @param snapshot A snapshot created by `snapshot()`.
+     * @param options Per-call options such as the concurrency `policy`.
+     * @returns A promise that resolves to true if at least the bottom state was restored.
+     */
+    public async restore(snapshot: FocusSnapshot, options?: FocusTransitionOptions): Promise<boolean> {
+        if (snapshot?.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.stack)) {
+            FMLog.log('error', `Cannot restore: unsupported snapshot format.`, snapshot);
+            return false;
+        }
+
+        let restored = false;
+        await this._enqueueTransition({ kind: 'restore', name: snapshot.stack[0]?.name ?? null }, options, async () => {
+            const entries: FocusSnapshot['stack'] = [];
+            for (const entry of snapshot.stack) {
+                const config = this.states.get(entry.name);
+                if (!config || config.notRestorable) {
+                    FMLog.log('warn', `Stopping restore at '${entry.name}': the state is ${config ? 'not restorable' : 'not registered'}.`);
+                    break;
+                }
+                entries.push(entry);
+            }
+            if (entries.length === 0) return;
+
+            const [base, ...rest] = entries;
+            this._restoring = true;
+            try {
+                await this._performSwitch(base.name, this._deserializePayload(base.name, base.payload), options);
+                if (this.current !== base.name) return; // Blocked by a guard
+
+                for (const entry of rest) {
+                    // The screen only transitions once, into the bottom state.
+                    await this._performPush(entry.name, this._deserializePayload(entry.name, entry.payload), { skipTransition: true });
+                    if (this.current !== entry.name) break;
+                }
+            } finally {
+                this._restoring = false;
+            }
+
+            this._history = (snapshot.history || []).map(entry => ({ ...entry, payload: this._deserializePayload(entry.name, entry.payload) }));
+            this._historyIndex = Math.min(snapshot.historyIndex ?? this._history.length - 1, this._history.length - 1);
+            restored = true;
+            this._saveSnapshot(); // The saves made while re-entering recorded a partial history.
+            FMLog.log('state', `Restored stack: ${this._stateStack.join(' > ')}`);
+        });
+        return restored;
+    }
+
+    /**
+     * Opts in to saving a snapshot to storage after every state change of this region.
+     * Use `restoreFromStorage()` on the next boot to pick up where the player left off.
+     * @param options The storage key and adapter. Defaults to `localStorage`.
+     * @returns A function that stops saving. Already saved data is kept.
+     */
+    public persist(options: FocusPersistenceOptions = {}): () => void {
+        const persistence = {
+            key: options.key ?? `focus-state:${this._regionName}`,
+            storage: options.storage ?? FocusLocalStorage,
+        };
+        this._persistence = persistence;
+
+        const unsubscribe = this.onSwitch((newState, oldState, region) => {
+            if (region === this._regionName) this._saveSnapshot();
+        });
+
+        return () => {
+            unsubscribe();
+            if (this._persistence === persistence) this._persistence = null;
+        };
+    }
+
+    private _saveSnapshot() {
+        if (!this._persistence) return;
+        const { key, storage } = this._persistence;
+        try {
+            Promise.resolve(storage.save(key, JSON.stringify(this.snapshot())))
+                .catch(e => FMLog.log('error', `Failed to persist focus state to '${key}'.`, e));
+        } catch (e) {
+            FMLog.log('error', `Failed to persist focus state to '${key}'.`, e);
+        }
+    }
+
+    /**
+     * Restores the snapshot saved by `persist()`, if there is one.
+     * @returns A promise that resolves to true if a stack was restored. Boot into your initial state otherwise.
+     */
+    public async restoreFromStorage(): Promise<boolean> {
+        if (!this._persistence) {
+            FMLog.log('warn', `restoreFromStorage() called before persist(). Nothing to restore from.`);
+            return false;
+        }
 
-        // --- 4. Run Enter Transition ---
-        if (transition) {
-            await transition.onEnter(this.current!, stateToPopName, transitionDuration);
+        const { key, storage } = this._persistence;
+        const raw = await storage.load(key);
+        if (!raw) return false;
+
+        let snapshot: FocusSnapshot;
+        try {
+            snapshot = JSON.parse(raw);
+        } catch (e) {
+            FMLog.log('error', `Discarding unreadable focus state in '${key}'.`, e);
+            await storage.remove(key);
+            return false;
         }
+        return this.restore(snapshot);
     }
 }
\ No newline at end of file
@@ -0,0 +1,308 @@
+import type { FocusManager } from "./FocusManager";
+import type { FocusRouteDefinition } from "./FocusState";
+import { FMLog } from "./utils/FocusLogger";
+
+/** Options for `FocusRouter`. */
+export interface FocusRouterOptions {
+    /**
+     * How states are written to the address bar.
+     * - `hash`: `#/game?room=alpha`. Works on any static host and inside embeds. (Default)
+     * - `history`: `/game?room=alpha` via the History API. Requires the server to serve the app for every path.
+     */
+    mode?: 'hash' | 'history';
+    /** In `history` mode, the path the app is served from, e.g. '/play'. */
+    basePath?: string;
+    /** The state to enter when the URL doesn't match any route. */
+    fallback?: string;
+}
+
+/** The result of matching a URL against the registered routes. */
+export interface FocusRouteMatch {
+    state: string;
+    params: Record<string, string>;
+    payload: any;
+}
+
+/** What the router stores in `history.state` for each entry it creates. */
+interface RouterEntry {
+    index: number;
+    state: string;
+    kind: 'switch' | 'push';
+}
+
+/**
+ * Keeps the browser's address bar and history in sync with a `FocusManager`.
+ * States opt in with `FocusState.withRoute()`. Entering a routed state adds a browser
+ * history entry, the browser's back button pops pushed states (e.g. closes the pause
+ * menu instead of leaving the page), and `start()` boots from a deep link.
+ * @example
+ * fm.create('game').withRoute('/game', {
+ *     toPayload: (params) => ({ roomName: params.room }),
+ *     toParams: (payload) => ({ room: payload.roomName }),
+ * });
+ * new FocusRouter(fm, { fallback: 'lobby' }).start(); // Boots from '#/game?room=alpha'
+ */
+export class FocusRouter {
+    private focusManager: FocusManager<any, any>;
+    private mode: 'hash' | 'history';
+    private basePath: string;
+    private fallback?: string;
+
+    private started = false;
+    private index = 0;
+    private lastStack: string[] = [];
+    private expectedFromBrowser: string | null = null; // A state change the router itself requested in response to the browser
+    private ignoreNextPopState = false;
+    private unsubscribeSwitch: (() => void) | null = null;
+
+    constructor(focusManager: FocusManager<any, any>, options: FocusRouterOptions = {}) {
+        this.focusManager = focusManager;
+        this.mode = options.mode ?? 'hash';
+        this.basePath = (options.basePath ?? '').replace(/\/$/, '');
+        this.fallback = options.fallback;
+    }
+
+    /**
+     * Starts listening to browser navigation and enters the state matching the current URL,
+     * or the fallback state if nothing matches.
+     * @returns A promise that resolves once the initial state has been entered.
+     */
+    public start(): Promise<void> {
+        if (this.started) {
+            FMLog.log('warn', `FocusRouter is already started.`);
+            return Promise.resolve();
+        }
+        this.started = true;
+
+        const entry = this.readEntry(history.state);
+        this.index = entry?.index ?? 0;
+        this.lastStack = [...this.focusManager.stateStack];
+
+        window.addEventListener('popstate', this.onPopState);
+        this.unsubscribeSwitch = this.focusManager.onSwitch(this.onStateChange);
+
+        const match = this.resolve(this.readLocation());
+        const target = match?.state ?? this.fallback;
+        if (!target) {
+            FMLog.log('warn', `FocusRouter: no route matches '${this.readLocation()}' and no fallback state is configured.`);
+            return Promise.resolve();
+        }
+
+        this.expectedFromBrowser = target;
+        return this.focusManager.switch(target, match?.payload).finally(() => {
+            this.expectedFromBrowser = null;
+            // Tag the entry we booted from, so later back/forward navigation can be recognized.
+            this.writeEntry('replace', this.focusManager.current, 'switch');
+        });
+    }
+
+    /** Stops listening to browser navigation and state changes. The current URL is left as-is. */
+    public stop(): void {
+        if (!this.started) return;
+        this.started = false;
+        window.removeEventListener('popstate', this.onPopState);
+        this.unsubscribeSwitch?.();
+        this.unsubscribeSwitch = null;
+    }
+
+    /**
+     * Matches a path (with optional query string) against the registered routes.
+     * @param location A path like '/game?room=alpha'.
+     * @returns The matching state, its parameters and the payload they produce, or null.
+     */
+    public resolve(location: string): FocusRouteMatch | null {
+        const [path, query = ''] = location.split('?');
+        const pathSegments = this.splitPath(path);
+
+        for (const [stateName, config] of this.focusManager.getRegisteredStateConfigs()) {
+            const route = config.route;
+            if (!route) continue;
+
+            const params = this.matchPath(route.path, pathSegments);
+            if (!params) continue;
+
+            new URLSearchParams(query).forEach((value, key) => {
+                if (!(key in params)) params[key] = value;
+            });
+
+            const payload = route.toPayload
+                ? route.toPayload(params)
+                : (Object.keys(params).length > 0 ? params : undefined);
+            return { state: stateName, params, payload };
+        }
+        return null;
+    }
+
+    /**
+     * Builds the URL for a state and payload.
+     * @returns The URL, e.g. '#/game?room=alpha', or null if the state has no route.
+     */
+    public urlFor(stateName: string, payload?: any): string | null {
+        const route = this.focusManager.getRegisteredStateConfigs().get(stateName)?.route;
+        if (!route) return null;
+
+        const params = { ...this.paramsFor(route, payload) };
+        const path = this.splitPath(route.path).map(segment => {
+            if (!segment.startsWith(':')) return segment;
+            const name = segment.slice(1);
+            const value = params[name];
+            delete params[name];
+            return encodeURIComponent(value === undefined ? '' : String(value));
+        }).join('/');
+
+        const query = new URLSearchParams();
+        for (const key in params) {
+            if (params[key] !== undefined) query.set(key, String(params[key]));
+        }
+        const queryString = query.toString();
+        const location = `/${path}${queryString ? `?${queryString}` : ''}`;
+
+        return this.mode === 'hash' ? `#${location}` : `${this.basePath}${location}`;
+    }
+
+    private onStateChange = (newState: string, oldState: string | null, region: string) => {
+        if (region !== this.focusManager.regionName) return;
+
+        const stack = [...this.focusManager.stateStack];
+        const kind = this.classifyChange(this.lastStack, stack);
+        this.lastStack = stack;
+
+        // The browser already shows the URL for changes it asked for.
+        if (this.expectedFromBrowser === newState) {
+            this.expectedFromBrowser = null;
+            return;
+        }
+
+        if (kind === 'pop') {
+            const entry = this.readEntry(history.state);
+            if (entry && entry.index > 0 && entry.state === oldState && entry.kind === 'push') {
+                // Undo the browser entry that was created when the popped state was pushed.
+                this.ignoreNextPopState = true;
+                history.back();
+            } else {
+                this.writeEntry('replace', newState, 'switch');
+            }
+            return;
+        }
+
+        this.writeEntry('push', newState, kind);
+    };
+
+    private onPopState = (event: PopStateEvent) => {
+        const entry = this.readEntry(event.state);
+
+        if (this.ignoreNextPopState) {
+            this.ignoreNextPopState = false;
+            this.index = entry?.index ?? this.index;
+            return;
+        }
+
+        const isForward = entry ? entry.index > this.index : true; // A hand-edited URL counts as new navigation.
+        this.index = entry?.index ?? this.index + 1;
+
+        const match = this.resolve(this.readLocation());
+        const target = match?.state ?? this.fallback;
+        if (!target) {
+            FMLog.log('warn', `FocusRouter: no route matches '${this.readLocation()}' and no fallback state is configured.`);
+            return;
+        }
+        if (target === this.focusManager.current) return;
+
+        const stack = this.focusManager.stateStack;
+        this.expectedFromBrowser = target;
+
+        let navigation: Promise<void>;
+        if (!isForward && stack[stack.length - 2] === target) {
+            navigation = this.focusManager.pop();
+        } else if (isForward && entry?.kind === 'push') {
+            navigation = this.focusManager.push(target, match?.payload);
+        } else {
+            navigation = this.focusManager.switch(target, match?.payload);
+        }
+
+        navigation
+            .catch(e => FMLog.log('warn', `FocusRouter: navigation to '${target}' did not complete.`, e))
+            .finally(() => {
+                if (this.expectedFromBrowser === target) this.expectedFromBrowser = null;
+                // A guard may have blocked the transition; put the URL back in line with the stack.
+                if (this.focusManager.current !== target) {
+                    this.writeEntry('push', this.focusManager.current, 'switch');
+                }
+            });
+    };
+
+    private classifyChange(before: string[], after: string[]): 'switch' | 'push' | 'pop' {
+        const isPrefix = (shorter: string[], longer: string[]) => shorter.every((name, i) => longer[i] === name);
+        if (after.length === before.length + 1 && isPrefix(before, after)) return 'push';
+        if (after.length === before.length - 1 && isPrefix(after, before)) return 'pop';
+        return 'switch';
+    }
+
+    private writeEntry(method: 'push' | 'replace', stateName: string | null, kind: 'switch' | 'push') {
+        if (!stateName) return;
+        const url = this.urlFor(stateName, this.focusManager.currentPayload);
+        if (!url) return; // Unrouted states leave the address bar alone.
+
+        if (method === 'push') this.index++;
+        const entry: RouterEntry = { index: this.index, state: stateName, kind };
+        const historyState = { ...(history.state || {}), focusRouter: entry };
+
+        if (method === 'push') {
+            history.pushState(historyState, '', url);
+        } else {
+            history.replaceState(historyState, '', url);
+        }
+    }
+
+    private readEntry(historyState: any): RouterEntry | null {
+        return historyState?.focusRouter ?? null;
+    }
+
+    private readLocation(): string {
+        if (this.mode === 'hash') {
+            return location.hash.replace(/^#/, '') || '/';
+        }
+        let path = location.pathname;
+        if (this.basePath && path.startsWith(this.basePath)) {
+            path = path.slice(this.basePath.length);
+        }
+        return `${path || '/'}${location.search}`;
+    }
+
+    private paramsFor(route: FocusRouteDefinition, payload: any): Record<string, string | number | boolean | undefined> {
+        if (route.toParams) return payload === undefined ? {} : route.toParams(payload);
+        const params: Record<string, string | number | boolean | undefined> = {};
+        if (payload && typeof payload === 'object') {
+            for (const key in payload) {
+                const value = payload[key];
+                if (['string', 'number', 'boolean'].includes(typeof value)) params[key] = value;
+            }
+        }
+        return params;
+    }
+
+    private splitPath(path: string): string[] {
+        return path.split('/').filter(segment => segment.length > 0);
+    }
+
+    private matchPath(pattern: string, segments: string[]): Record<string, string> | null {
+        const patternSegments = this.splitPath(pattern);
+        if (patternSegments.length !== segments.length) return null;
+
+        const params: Record<string, string> = {};
+        for (let i = 0; i < patternSegments.length; i++) {
+            const expected = patternSegments[i];
+            if (expected.startsWith(':')) {
+                try {
+                    params[expected.slice(1)] = decodeURIComponent(segments[i]);
+                } catch (e) {
+                    // A malformed escape like '%E0%A4%A' matches no route, so the fallback state applies.
+                    return null;
+                }
+            } else if (expected !== segments[i]) {
+                return null;
+            }
+        }
+        return params;
+    }
+}
@@ -1,13 +1,66 @@
-import { UILayerManager, UILayer } from "./UILayerManager";
+import { UILayerManager, UILayer, UILayerCoverTreatment } from "./UILayerManager";
 import { PrefabUtil } from "./utils/PrefabUtil";
 import { FMLog } from "./utils/FocusLogger";
 import * as RE from 'rogue-engine';
 import type { FocusManager } from "./FocusManager";
+import type { FocusEventMap, FocusEventName } from "./utils/FocusEventBus";
+import { FocusProgress, noProgress } from "./utils/FocusLoading";
+import type { FocusTransitionParams } from "./utils/FocusTransitions";
 import * as THREE from 'three';
 
 type LayerDefinition = { [layerName: string]: number };
 
-type KeyListener = { eventType: 'keydown' | 'keyup' | 'keypress', key: string, callback: (fm: FocusManager, event: KeyboardEvent) => void };
+type KeyListener = { eventType: 'keydown' | 'keyup' | 'keypress', key: string, callback: (fm: FocusManager<any, any>, event: KeyboardEvent, status: FocusListenerStatus) => void, whenSuspended?: boolean };
+type EventListener = { eventName: string, callback: (fm: FocusManager<any, any>, payload: any, status: FocusListenerStatus) => void, whenSuspended?: boolean };
+
+/** Whether the state a listener belongs to is on top of the stack, or covered by another state. */
+export type FocusListenerStatus = 'active' | 'suspended';
+
+/** Options for `FocusState.onEvent()` and `FocusState.onKey()`. */
+export interface FocusListenerOptions {
+    /**
+     * If true, the listener also runs while the state is covered by a pushed state, or belongs to
+     * a suspended child machine, e.g. to react to a server disconnect under the pause menu.
+     * It is still removed when the state exits.
+     */
+    whenSuspended?: boolean;
+}
+
+/** Binds a state to a URL path for `FocusRouter`. */
+export type FocusRouteDefinition = {
+    /** The path, e.g. '/game' or '/game/:room'. `:name` segments become parameters. */
+    path: string;
+    /** Builds the payload from the path and query parameters. Defaults to the parameters object, or undefined if there are none. */
+    toPayload?: (params: Record<string, string>) => any;
+    /** Builds path and query parameters from the payload. Defaults to the payload's primitive properties. */
+    toParams?: (payload: any) => Record<string, string | number | boolean | undefined>;
+};
+
+/** Maps state names to the payload type their `onEnter` hooks receive. */
+export type FocusStateMap = Record<string, any>;
+
+/** The state names declared by a state map. */
+export type FocusStateName<TStates extends FocusStateMap> = keyof TStates & string;
+
+/** The lifecycle hooks whose errors are attributed by `FocusHookError`. `effect` stands for the transition effect. */
+export type FocusHookName = 'onEnter' | 'onExit' | 'onPause' | 'onResume' | 'effect';
+
+/** Receives hook errors instead of letting them abort the remaining hooks. */
+export type FocusHookErrorHandler = (error: FocusHookError) => void;
+
+/** Wraps an error thrown by a lifecycle hook, recording which state and hook it came from. */
+export class FocusHookError extends Error {
+    /**
+     * @param state The state the hook was registered on.
+     * @param hook The kind of hook that threw.
+     * @param index The position of the hook among the state's hooks of that kind, in registration order. -1 for transition effects.
+     * @param cause The original error.
+     */
+    constructor(public readonly state: string, public readonly hook: FocusHookName, public readonly index: number, public readonly cause: unknown) {
+        super(`${hook === 'effect' ? 'Transition effect' : `${hook} hook #${index}`} of state '${state}' threw: ${cause instanceof Error ? cause.message : String(cause)}`);
+        this.name = 'FocusHookError';
+    }
+}
 
 /**
  * The internal configuration object used by FocusManager after a FocusState is built.
@@ -28,16 +81,50 @@ export interface FocusStateConfig {
          */
         cleanupOnExit?: string[];
         layers?: LayerDefinition;
+        /** If true, the layers visible in the state below stay visible while this state is on top of it. */
+        inheritVisibleFromBelow?: boolean;
+        /** Applied to the layers shown from below while this state covers them. */
+        coveredTreatment?: UILayerCoverTreatment;
     };
     transitionEffectName?: string;
     transitionDuration?: number;
+    /** Parameters for the effect named by `transitionEffectName`. */
+    transitionParams?: Record<string, any>;
+    /** Transition effects to use when entering this state from specific states, keyed by the state being left. */
+    transitionsFrom?: { [fromStateName: string]: { effectName: string, durationMs?: number, params?: Record<string, any> } };
     managedPrefabs?: string[];
+    /** If true, entering this state is not recorded in the manager's navigation history. */
+    excludeFromHistory?: boolean;
+    route?: FocusRouteDefinition;
+    /** States this state may `switch()` to. Checked by `FocusManager.strictTransitions`. */
+    allowedSwitches?: string[];
+    /** States that may be `push()`ed on top of this state. Checked by `FocusManager.strictTransitions`. */
+    allowedPushes?: string[];
+    /** The registered loading view shown while this state's `onEnter` hooks run, overriding `FocusManager.loadingView`. 'none' shows none. */
+    loadingViewName?: string;
+    /** If true, snapshots stop at this state and it is never restored. */
+    notRestorable?: boolean;
+    /** Converts this state's payload into a JSON-serializable value for snapshots. */
+    serializePayload?: (payload: any) => any;
+    /** Converts a value produced by `serializePayload` back into a payload. */
+    deserializePayload?: (data: any) => any;
     onEnterHookCount?: number;
     onExitHookCount?: number;
-    eventListeners?: { eventName: string, callback: (fm: FocusManager, payload: any) => void }[];
+    onPauseHookCount?: number;
+    onResumeHookCount?: number;
+    canEnterGuardCount?: number;
+    canExitGuardCount?: number;
+    eventListeners?: EventListener[];
     keyListeners?: KeyListener[];
-    onEnter?: (payload: any | undefined, ui: UILayerManager) => Promise<void>;
-    onExit?: (nextStateName: string) => Promise<void>;
+    /** Runs the hooks in order. Without `onError`, the first error is thrown as a `FocusHookError` and the remaining hooks are skipped. */
+    onEnter?: (payload: any | undefined, ui: UILayerManager, onError?: FocusHookErrorHandler, progress?: FocusProgress) => Promise<void>;
+    onExit?: (nextStateName: string, onError?: FocusHookErrorHandler) => Promise<void>;
+    onPause?: (coveringStateName: string, onError?: FocusHookErrorHandler) => Promise<void>;
+    onResume?: (revealingStateName: string, onError?: FocusHookErrorHandler) => Promise<void>;
+    /** Resolves to false if any `canEnter` guard vetoes entering this state. */
+    canEnter?: (payload: any | undefined, fromStateName: string | null) => Promise<boolean>;
+    /** Resolves to false if any `canExit` guard vetoes leaving this state. */
+    canExit?: (nextStateName: string) => Promise<boolean>;
 }
 
 type DelegatedListener = { layerName: string, eventType: string, selector: string, callback: (event: Event, target: HTMLElement) => void };
@@ -45,37 +132,54 @@ type ContainerListener = { layerName: string, eventType: string, callback: (even
 /**
  * A chainable builder for defining a single application state (e.g., 'lobby', 'game').
  * It provides a fluent API for configuring UI layers, lifecycle hooks, and event listeners.
+ * @typeParam TPayload The payload this state's `onEnter` hooks receive.
+ * @typeParam TStates The state map of the owning `FocusManager`.
+ * @typeParam TEvents The event map of the owning `FocusManager`.
  */
-export class FocusState {
+export class FocusState<TPayload = any, TStates extends FocusStateMap = FocusStateMap, TEvents extends FocusEventMap = FocusEventMap> {
     public readonly name: string;
     private uiLayerManager: UILayerManager;
-    private focusManager: FocusManager;
+    private focusManager: FocusManager<TStates, TEvents>;
 
     private _uiConfig: FocusStateConfig['ui'] = {};
-    private _onEnterHooks: ((payload: any | undefined, ui: UILayerManager) => void | Promise<void>)[] = [];
+    private _onEnterHooks: ((payload: TPayload, ui: UILayerManager, progress: FocusProgress) => void | Promise<void>)[] = [];
     private _onExitHooks: ((nextStateName: string) => void | Promise<void>)[] = [];
+    private _onPauseHooks: ((coveringStateName: string) => void | Promise<void>)[] = [];
+    private _onResumeHooks: ((revealingStateName: string) => void | Promise<void>)[] = [];
+    private _canEnterGuards: ((payload: TPayload, fromStateName: string | null) => boolean | Promise<boolean>)[] = [];
+    private _canExitGuards: ((nextStateName: string) => boolean | Promise<boolean>)[] = [];
     private _delegatedListeners: DelegatedListener[] = [];
-    private _eventListeners: { eventName: string, callback: (fm: FocusManager, payload: any) => void }[] = [];
+    private _eventListeners: EventListener[] = [];
     private _keyListeners: KeyListener[] = [];
     private _containerListeners: ContainerListener[] = [];
     private _extendsStateName?: string;
     private _preserveOnExit = new Set<string>();
     private _transitionEffectName?: string;
     private _transitionDuration?: number;
+    private _transitionParams?: Record<string, any>;
+    private _transitionsFrom: { [fromStateName: string]: { effectName: string, durationMs?: number, params?: Record<string, any> } } = {};
+    private _loadingViewName?: string;
     private _managedPrefabs: string[] = [];
+    private _excludeFromHistory = false;
+    private _notRestorable = false;
+    private _route?: FocusRouteDefinition;
+    private _allowedSwitches = new Set<string>();
+    private _allowedPushes = new Set<string>();
+    private _payloadSerializer?: { serialize: (payload: TPayload) => any, deserialize: (data: any) => TPayload };
     private _entryVersion = 0; // Used to cancel stale async operations on rapid state switching
 
     /**
      * @internal - Should be created via `FocusManager.create()`.
      */
-    constructor(name: string, uiLayerManager: UILayerManager, focusManager: FocusManager) {
+    constructor(name: string, uiLayerManager: UILayerManager, focusManager: FocusManager<TStates, TEvents>) {
         this.name = name;
         this.uiLayerManager = uiLayerManager;
         this.focusManager = focusManager;
     }
 
     /**
-     * Inherits configuration from a previously registered base state.
+     * Inherits configuration from a base state. The base can be registered before or after
+     * this state, and registering it again later updates this state too.
      * Properties from this state will override the base state's properties.
      * Arrays like `onEnter` hooks and `managedPrefabs` will be combined.
      * @param baseStateName The name of the state to extend.
@@ -89,7 +193,7 @@ export class FocusState {
      * Defines which UI layers are visible in this state and which are reset on exit.
      * @param config Configuration for UI layer visibility and cleanup.
      */
-    ui(config: { visible?: string[], preserveOnExit?: string[], cleanupOnExit?: string[], layers?: LayerDefinition }): this {
+    ui(config: { visible?: string[], preserveOnExit?: string[], cleanupOnExit?: string[], layers?: LayerDefinition, inheritVisibleFromBelow?: boolean, coveredTreatment?: UILayerCoverTreatment }): this {
         this._uiConfig = { ...this._uiConfig, ...config };
         if (config.preserveOnExit) {
             config.preserveOnExit.forEach(layerName => this._preserveOnExit.add(layerName));
@@ -101,9 +205,10 @@ export class FocusState {
      * Registers a function to be executed when entering this state.
      * The function can optionally receive a payload passed from `focus.switch()`.
      * Can be called multiple times to add multiple hooks.
+     * Slow hooks can call `progress.report(fraction, label)` to drive the loading view.
      * @param callback The function to execute, which can accept a payload.
      */
-    onEnter(callback: (payload: any | undefined, ui: UILayerManager) => void | Promise<void>): this {
+    onEnter(callback: (payload: TPayload, ui: UILayerManager, progress: FocusProgress) => void | Promise<void>): this {
         this._onEnterHooks.push(callback);
         return this;
     }
@@ -118,6 +223,52 @@ export class FocusState {
         return this;
     }
 
+    /**
+     * Registers a function to be executed when another state is pushed on top of this one.
+     * The state stays on the stack, but its listeners are deactivated until it is resumed.
+     * Can be called multiple times to add multiple hooks.
+     * @param callback The function to execute. It receives the name of the state that covers this one.
+     */
+    onPause(callback: (coveringStateName: string) => void | Promise<void>): this {
+        this._onPauseHooks.push(callback);
+        return this;
+    }
+
+    /**
+     * Registers a function to be executed when this state becomes active again because
+     * the state above it was popped. It is not called when a `switch()` clears this state
+     * while it is paused; `onExit` runs instead.
+     * Can be called multiple times to add multiple hooks.
+     * @param callback The function to execute. It receives the name of the state that was popped.
+     */
+    onResume(callback: (revealingStateName: string) => void | Promise<void>): this {
+        this._onResumeHooks.push(callback);
+        return this;
+    }
+
+    /**
+     * Registers a guard that decides whether this state may be entered.
+     * Guards run before anything is torn down, so a veto leaves the current stack,
+     * UI and listeners untouched. Can be called multiple times; every guard must pass.
+     * @param guard Receives the payload and the name of the state being left. Return false to block the transition.
+     */
+    canEnter(guard: (payload: TPayload, fromStateName: string | null) => boolean | Promise<boolean>): this {
+        this._canEnterGuards.push(guard);
+        return this;
+    }
+
+    /**
+     * Registers a guard that decides whether this state may be left, e.g. to confirm
+     * discarding unsaved changes. It is checked when the state is popped or cleared by
+     * `switch()`, but not when another state is pushed on top of it.
+     * Can be called multiple times; every guard must pass.
+     * @param guard Receives the name of the state being transitioned to. Return false to block the transition.
+     */
+    canExit(guard: (nextStateName: string) => boolean | Promise<boolean>): this {
+        this._canExitGuards.push(guard);
+        return this;
+    }
+
     /**
      * Specifies one or more prefabs to be automatically instantiated when this state is entered
      * and destroyed when it is exited.
@@ -131,13 +282,22 @@ export class FocusState {
         let instantiatedPrefabs: THREE.Object3D[] = [];
 
         // Add an onEnter hook to spawn the prefabs.
-        this.onEnter(async () => {
+        this.onEnter(async (payload, ui, progress) => {
             // Capture the version at the start of this async hook.
             const entryVersionForThisHook = this._entryVersion;
 
             instantiatedPrefabs = [];
-            
-            const instances = await PrefabUtil.instantiateMultiple(...prefabNames);
+
+            // Instantiate in parallel, reporting each prefab as it is ready.
+            let loadedCount = 0;
+            progress.report(0, `Loading prefabs (0/${prefabNames.length})`);
+            const results = await Promise.all(prefabNames.map(async name => {
+                const instance = await PrefabUtil.instantiate(name);
+                loadedCount++;
+                progress.report(loadedCount / prefabNames.length, `Loading prefabs (${loadedCount}/${prefabNames.length})`);
+                return instance;
+            }));
+            const instances = results.filter((instance): instance is THREE.Object3D => instance !== null);
 
             // **Cancellation Check**: Has an exit occurred while we were instantiating?
             if (entryVersionForThisHook !== this._entryVersion) {
@@ -177,11 +337,13 @@ export class FocusState {
 
         let instantiatedPrefabs: THREE.Object3D[] = [];
 
-        this.onEnter(async () => {
+        this.onEnter(async (payload, ui, progress) => {
             const entryVersionForThisHook = this._entryVersion;
             instantiatedPrefabs = [];
 
-            for (const name of prefabNames) {
+            for (const [index, name] of prefabNames.entries()) {
+                progress.report(index / prefabNames.length, `Loading prefabs (${index}/${prefabNames.length})`);
+
                 // Check for cancellation before each instantiation
                 if (entryVersionForThisHook !== this._entryVersion) {
                     FMLog.log('prefab', `Batched instantiation cancelled for state '${this.name}'.`);
@@ -219,11 +381,41 @@ export class FocusState {
      * Specifies a transition effect to be used when switching *to* this state.
      * Requires a corresponding effect to be registered with `FocusManager.registerTransitionEffect`.
      * @param effectName The name of the transition effect (e.g., 'fade', 'wipe').
+     * @param durationMs The effect duration in milliseconds.
+     * @param params Parameters for the effect, e.g. `{ color: 'white' }` for a fade or `{ direction: 'up' }` for a wipe.
      * @returns The `FocusState` instance for chaining.
      */
-    public withTransition(effectName: string, durationMs?: number): this {
+    public withTransition<E extends string>(effectName: E, durationMs?: number, params?: FocusTransitionParams<E>): this {
         this._transitionEffectName = effectName;
         this._transitionDuration = durationMs;
+        this._transitionParams = params;
+        return this;
+    }
+
+    /**
+     * Specifies a transition effect to be used when entering this state from a specific state,
+     * e.g. an iris when dying into 'game-over' but the default fade when quitting into it.
+     * When this state is resumed by `pop()`, the rule for the popped state applies.
+     * Takes precedence over `withTransition()`, but not over the options of a single `switch()`, `push()` or `pop()` call.
+     * @param fromStateName The state being left.
+     * @param effectName The name of the transition effect, or 'none' for no effect.
+     * @param durationMs The effect duration in milliseconds.
+     * @param params Parameters for the effect.
+     * @returns The `FocusState` instance for chaining.
+     */
+    public withTransitionFrom<E extends string>(fromStateName: FocusStateName<TStates>, effectName: E, durationMs?: number, params?: FocusTransitionParams<E>): this {
+        this._transitionsFrom[fromStateName] = { effectName, durationMs, params };
+        return this;
+    }
+
+    /**
+     * Specifies the loading view shown while this state's `onEnter` hooks run, instead of `FocusManager.loadingView`.
+     * Requires a corresponding view to be registered with `FocusManager.registerLoadingView`.
+     * @param viewName The name of the loading view, or 'none' to show none.
+     * @returns The `FocusState` instance for chaining.
+     */
+    public withLoadingView(viewName: string): this {
+        this._loadingViewName = viewName;
         return this;
     }
 
@@ -258,29 +450,108 @@ export class FocusState {
     /**
      * Attaches an event listener to the global FocusManager event bus, but scoped
      * to this state's lifecycle. The listener will only be active when this state
-     * is the current, active state on top of the stack.
+     * is the current, active state on top of the stack, unless `whenSuspended` is set.
      * @param eventName The event to listen for from the global event bus.
-     * @param callback The function to call when the event is emitted. It receives the FocusManager instance and the event payload.
+     * @param callback The function to call when the event is emitted. It receives the FocusManager instance, the event payload and whether this state is active or suspended.
+     * @param options Pass `{ whenSuspended: true }` to keep the listener active while the state is anywhere on the stack.
      */
-    public onEvent(eventName: string, callback: (fm: FocusManager, payload: any) => void): this {
-        this._eventListeners.push({ eventName, callback });
+    public onEvent<K extends FocusEventName<TEvents>>(eventName: K, callback: (fm: FocusManager<TStates, TEvents>, payload: TEvents[K], status: FocusListenerStatus) => void, options: FocusListenerOptions = {}): this {
+        this._eventListeners.push({ eventName, callback, whenSuspended: options.whenSuspended });
         return this;
     }
 
     /**
      * Attaches a keyboard event listener to the document, but scoped to this
      * state's lifecycle. The listener will only be active when this state is the
-     * current, active state on top of the stack.
+     * current, active state on top of the stack, unless `whenSuspended` is set.
      * @param eventType The keyboard event to listen for ('keydown', 'keyup', 'keypress').
      * @param key The key to listen for (e.g., 'Enter', 'Escape', 'a').
-     * @param callback The function to call when the key event is triggered. It receives the FocusManager instance and the KeyboardEvent.
+     * @param callback The function to call when the key event is triggered. It receives the FocusManager instance, the KeyboardEvent and whether this state is active or suspended.
+     * @param options Pass `{ whenSuspended: true }` to keep the listener active while the state is anywhere on the stack.
      */
-    public onKey(eventType: 'keydown' | 'keyup' | 'keypress', key: string, callback: (fm: FocusManager, event: KeyboardEvent) => void): this {
-        this._keyListeners.push({ eventType, key, callback });
+    public onKey(eventType: 'keydown' | 'keyup' | 'keypress', key: string, callback: (fm: FocusManager<TStates, TEvents>, event: KeyboardEvent, status: FocusListenerStatus) => void, options: FocusListenerOptions = {}): this {
+        this._keyListeners.push({ eventType, key, callback, whenSuspended: options.whenSuspended });
         return this;
     }
 
+    /**
+     * Declares the states this state may `switch()` to. With `FocusManager.strictTransitions`
+     * enabled, switching anywhere else is rejected. The declarations are also drawn by `FocusManager.exportGraph()`.
+     * @param stateNames The states that may be switched to from this state.
+     * @returns The `FocusState` instance for chaining.
+     */
+    public allowTo(...stateNames: FocusStateName<TStates>[]): this {
+        stateNames.forEach(name => this._allowedSwitches.add(name));
+        return this;
+    }
 
+    /**
+     * Declares the states that may be `push()`ed on top of this state, e.g. a pause menu over 'game'.
+     * With `FocusManager.strictTransitions` enabled, pushing anything else is rejected.
+     * @param stateNames The states that may be pushed over this state.
+     * @returns The `FocusState` instance for chaining.
+     */
+    public allowPushOf(...stateNames: FocusStateName<TStates>[]): this {
+        stateNames.forEach(name => this._allowedPushes.add(name));
+        return this;
+    }
+
+    /**
+     * Keeps this state out of the manager's navigation history. Use it for transient
+     * states like 'loading' or 'splash', so that `back()` skips over them.
+     * @returns The `FocusState` instance for chaining.
+     */
+    public excludeFromHistory(): this {
+        this._excludeFromHistory = true;
+        return this;
+    }
+
+    /**
+     * Opts this state in to URL routing with `FocusRouter`. Entering the state writes
+     * its path to the address bar, and navigating to the path enters the state.
+     * @param path The path, e.g. '/game' or '/game/:room'. Query parameters are supported too, e.g. '#/game?room=alpha'.
+     * @param options Converters between the URL parameters and this state's payload.
+     * @returns The `FocusState` instance for chaining.
+     */
+    public withRoute(path: string, options: { toPayload?: (params: Record<string, string>) => TPayload, toParams?: (payload: TPayload) => Record<string, string | number | boolean | undefined> } = {}): this {
+        this._route = { path, ...options };
+        return this;
+    }
+
+    /**
+     * Marks this state as one that can't be rebuilt from a snapshot, e.g. a game session
+     * that depends on a live server connection. `FocusManager.snapshot()` stops at this
+     * state, so neither it nor anything pushed on top of it is restored.
+     * @returns The `FocusState` instance for chaining.
+     */
+    public notRestorable(): this {
+        this._notRestorable = true;
+        return this;
+    }
+
+    /**
+     * Controls how this state's payload is stored in snapshots and navigation history
+     * persisted with `FocusManager.snapshot()`. Without a serializer, the payload is stored as-is
+     * and must be JSON-serializable.
+     * @param serializer Converts the payload to and from a JSON-serializable value.
+     * @returns The `FocusState` instance for chaining.
+     */
+    public withPayloadSerializer(serializer: { serialize: (payload: TPayload) => any, deserialize: (data: any) => TPayload }): this {
+        this._payloadSerializer = serializer;
+        return this;
+    }
+
+    /**
+     * Makes this state a modal overlay: when pushed, its layers are shown on top of everything
+     * visible in the state below instead of replacing it, e.g. a pause menu over the game.
+     * Only this state's own `ui.visible` layers are reset when it exits.
+     * @param coveredTreatment How to treat the layers shown from below, e.g. `{ dim: true, inert: true }`.
+     * @returns The `FocusState` instance for chaining.
+     */
+    public asOverlay(coveredTreatment?: UILayerCoverTreatment): this {
+        this._uiConfig = { ...this._uiConfig, inheritVisibleFromBelow: true, coveredTreatment };
+        return this;
+    }
 
     /**
      * Prevents a layer's content from being cleared when this state is exited.
@@ -357,6 +628,73 @@ export class FocusState {
         return this;
     }
 
+    /**
+     * Moves on automatically once this state has been active for a while, e.g. to leave a splash screen.
+     * The delay runs on `FocusManager.timers`: it freezes while another state is pushed on top and
+     * is cancelled if this state exits first.
+     * @param delayMs How long the state must be on top of the stack, in milliseconds.
+     * @param action The state to switch to, or a function to run instead.
+     * @returns The `FocusState` instance for chaining.
+     * @example
+     * fm.create('splash').after(2000, 'lobby');
+     * fm.create('round-intro').after(3000, (fm) => fm.pop());
+     */
+    public after(delayMs: number, action: FocusStateName<TStates> | ((fm: FocusManager<TStates, TEvents>) => void)): this {
+        this.onEnter(() => {
+            const fm = this.focusManager;
+            fm.timers.after(delayMs, () => {
+                if (typeof action === 'function') {
+                    action(fm);
+                    return;
+                }
+                (fm as FocusManager<any, any>).switch(action).catch(e => {
+                    FMLog.log('warn', `Timed transition from '${this.name}' to '${action}' did not complete.`, e);
+                });
+            });
+        });
+        return this;
+    }
+
+    /**
+     * Gives this state a nested state machine of its own, e.g. the steps of a tutorial inside 'game'.
+     * The child `FocusManager` is created the first time this state is entered and starts in its
+     * initial state on every entry. It is suspended while this state is covered by `push()`, and all
+     * of its states exit when this state exits. Events emitted on the child's bus that none of its
+     * states handle bubble up to this manager's bus. Use `FocusManager.child()` to reach it.
+     * @param build Registers the child's states and returns the name of the initial one. Called once.
+     * @returns The `FocusState` instance for chaining.
+     * @example
+     * fm.create('game').withChildMachine((tutorial) => {
+     *     tutorial.register(tutorial.create('intro').onEvent('tutorial:next', (t) => t.switch('move')));
+     *     tutorial.register(tutorial.create('move').onEvent('player:moved', (t) => t.switch('done')));
+     *     tutorial.register(tutorial.create('done').onEnter(() => tutorial.events.emit('tutorial:finished')));
+     *     return 'intro';
+     * });
+     */
+    public withChildMachine<CStates extends FocusStateMap = FocusStateMap>(build: (child: FocusManager<CStates, TEvents>) => FocusStateName<CStates>): this {
+        this.onEnter(() => this.focusManager.enterChildMachine(build));
+        this.onPause((coveringStateName) => this.focusManager.suspendChildMachine(coveringStateName));
+        this.onResume((revealingStateName) => this.focusManager.resumeChildMachine(revealingStateName));
+        this.onExit((nextStateName) => this.focusManager.exitChildMachine(nextStateName));
+        return this;
+    }
+
+    /**
+     * Runs hooks in order, attributing any error to this state and the hook's index.
+     * With an `onError` handler, errors are reported and the remaining hooks still run.
+     */
+    private async runHooks<A extends any[]>(hook: FocusHookName, hooks: ((...args: A) => void | Promise<void>)[], args: A, onError?: FocusHookErrorHandler): Promise<void> {
+        for (let i = 0; i < hooks.length; i++) {
+            try {
+                await hooks[i](...args);
+            } catch (e) {
+                const error = new FocusHookError(this.name, hook, i, e);
+                if (!onError) throw error;
+                onError(error);
+            }
+        }
+    }
+
     /** 
      * @internal Builds the final config object for the FocusManager to use.
      * This consolidates all the builder methods into a single, executable configuration.
@@ -368,15 +706,53 @@ export class FocusState {
                 ...this._uiConfig,
                 preserveOnExit: this._preserveOnExit.size > 0 ? Array.from(this._preserveOnExit) : undefined,
             },
-            transitionEffectName: this._transitionEffectName,
-            transitionDuration: this._transitionDuration,
             managedPrefabs: this._managedPrefabs.length > 0 ? [...this._managedPrefabs] : undefined,
             onEnterHookCount: this._onEnterHooks.length,
             onExitHookCount: this._onExitHooks.length,
+            onPauseHookCount: this._onPauseHooks.length,
+            onResumeHookCount: this._onResumeHooks.length,
+            canEnterGuardCount: this._canEnterGuards.length,
+            canExitGuardCount: this._canExitGuards.length,
             eventListeners: this._eventListeners.length > 0 ? [...this._eventListeners] : undefined,
             keyListeners: this._keyListeners.length > 0 ? [...this._keyListeners] : undefined,
         };
 
+        if (this._excludeFromHistory) {
+            finalConfig.excludeFromHistory = true;
+        }
+        if (this._route) {
+            finalConfig.route = this._route;
+        }
+        // Only set when declared, so that an inherited transition is not overridden with undefined.
+        if (this._transitionEffectName !== undefined) {
+            finalConfig.transitionEffectName = this._transitionEffectName;
+        }
+        if (this._transitionDuration !== undefined) {
+            finalConfig.transitionDuration = this._transitionDuration;
+        }
+        if (this._transitionParams !== undefined) {
+            finalConfig.transitionParams = this._transitionParams;
+        }
+        if (this._loadingViewName !== undefined) {
+            finalConfig.loadingViewName = this._loadingViewName;
+        }
+        if (Object.keys(this._transitionsFrom).length > 0) {
+            finalConfig.transitionsFrom = { ...this._transitionsFrom };
+        }
+        if (this._allowedSwitches.size > 0) {
+            finalConfig.allowedSwitches = [...this._allowedSwitches];
+        }
+        if (this._allowedPushes.size > 0) {
+            finalConfig.allowedPushes = [...this._allowedPushes];
+        }
+        if (this._notRestorable) {
+            finalConfig.notRestorable = true;
+        }
+        if (this._payloadSerializer) {
+            finalConfig.serializePayload = this._payloadSerializer.serialize;
+            finalConfig.deserializePayload = this._payloadSerializer.deserialize;
+        }
+
         const layersWithListeners = new Set<string>();
         this._delegatedListeners.forEach(l => layersWithListeners.add(l.layerName));
         this._containerListeners.forEach(l => layersWithListeners.add(l.layerName));
@@ -397,14 +773,19 @@ export class FocusState {
         }
 
         // Combine all onEnter hooks into a single function.
-        finalConfig.onEnter = async (payload: any | undefined, ui: UILayerManager) => {
+        finalConfig.onEnter = async (payload: any | undefined, ui: UILayerManager, onError?: FocusHookErrorHandler, progress: FocusProgress = noProgress) => {
             // Capture the version at the very start of the state entry process.
             const entryVersion = this._entryVersion;
 
-            // Execute all potentially async hooks.
-            for (const hook of this._onEnterHooks) {
-                await hook(payload, ui);
-            }
+            // Execute all potentially async hooks. Each one reports into its own slice of the progress,
+            // which counts as complete once the hook returns.
+            const hookCount = this._onEnterHooks.length;
+            const hooks = this._onEnterHooks.map((hook, i) => async (payload: any, ui: UILayerManager) => {
+                const slice = progress.slice(i / hookCount, (i + 1) / hookCount);
+                await hook(payload, ui, slice);
+                slice.report(1);
+            });
+            await this.runHooks('onEnter', hooks, [payload, ui], onError);
 
             // Final cancellation check before attaching synchronous listeners.
             // This ensures that if a switch happened during an `await` in a hook,
@@ -420,14 +801,42 @@ export class FocusState {
 
         // Combine all onExit hooks.
         const allExitHooks = [...this._onExitHooks];
-        finalConfig.onExit = async (nextStateName: string) => {
+        finalConfig.onExit = async (nextStateName: string, onError?: FocusHookErrorHandler) => {
             // Invalidate any ongoing onEnter operations immediately.
             this._entryVersion++;
-            for (const hook of allExitHooks) {
-                await hook(nextStateName);
-            }
+            await this.runHooks('onExit', allExitHooks, [nextStateName], onError);
         };
 
+        if (this._onPauseHooks.length > 0) {
+            const hooks = [...this._onPauseHooks];
+            finalConfig.onPause = (coveringStateName: string, onError?: FocusHookErrorHandler) => this.runHooks('onPause', hooks, [coveringStateName], onError);
+        }
+
+        if (this._onResumeHooks.length > 0) {
+            const hooks = [...this._onResumeHooks];
+            finalConfig.onResume = (revealingStateName: string, onError?: FocusHookErrorHandler) => this.runHooks('onResume', hooks, [revealingStateName], onError);
+        }
+
+        if (this._canEnterGuards.length > 0) {
+            const guards = [...this._canEnterGuards];
+            finalConfig.canEnter = async (payload: any | undefined, fromStateName: string | null) => {
+                for (const guard of guards) {
+                    if (!(await guard(payload, fromStateName))) return false;
+                }
+                return true;
+            };
+        }
+
+        if (this._canExitGuards.length > 0) {
+            const guards = [...this._canExitGuards];
+            finalConfig.canExit = async (nextStateName: string) => {
+                for (const guard of guards) {
+                    if (!(await guard(nextStateName))) return false;
+                }
+                return true;
+            };
+        }
+
         return finalConfig;
     }
 }
\ No newline at end of file
@@ -8,6 +8,20 @@ interface DelegatedListener {
     callback: (event: Event, target: HTMLElement) => void;
 }
 
+/**
+ * How a layer is treated while an overlay covers it. See `UILayer.cover()`.
+ */
+export interface UILayerCoverTreatment {
+    /** Darkens the layer. `true` uses a brightness of 0.5; a number sets the brightness, from 0 (black) to 1. */
+    dim?: boolean | number;
+    /** Blurs the layer. `true` uses a 4px radius; a number sets the radius in pixels. */
+    blur?: boolean | number;
+    /** Sets the `inert` attribute, which removes the layer from focus navigation and the accessibility tree. */
+    inert?: boolean;
+    /** Ignores mouse and touch input on the layer. */
+    disablePointer?: boolean;
+}
+
 /**
  * Represents a single UI layer with a fluent API for manipulation.
  */
@@ -25,6 +39,8 @@ export class UILayer {
     private masterHandlers: Map<string, (event: Event) => void> = new Map();
     private cleanupTasks: (() => void)[] = [];
     private manager: UILayerManager;
+    /** The inline styles replaced by `cover()`, restored by `uncover()`. Null while uncovered. */
+    private uncoveredStyle: { filter: string, pointerEvents: string, inert: boolean } | null = null;
 
     constructor(name: string, element: HTMLDivElement, manager: UILayerManager) {
         this.name = name;
@@ -129,6 +145,44 @@ export class UILayer {
         return this;
     }
 
+    /**
+     * Applies a treatment to the layer while something is displayed over it, e.g. a pause menu
+     * over the game. Covering an already covered layer replaces the previous treatment.
+     * @param treatment How to dim, blur or disable the layer.
+     * @returns The UILayer instance for chaining.
+     */
+    cover(treatment: UILayerCoverTreatment): this {
+        this.uncover();
+        const style = this.element.style;
+        this.uncoveredStyle = { filter: style.filter, pointerEvents: style.pointerEvents, inert: this.element.inert };
+
+        const filters: string[] = [];
+        if (treatment.dim !== undefined && treatment.dim !== false) filters.push(`brightness(${treatment.dim === true ? 0.5 : treatment.dim})`);
+        if (treatment.blur !== undefined && treatment.blur !== false) filters.push(`blur(${treatment.blur === true ? 4 : treatment.blur}px)`);
+        if (filters.length > 0) style.filter = [style.filter, ...filters].filter(Boolean).join(' ');
+        if (treatment.disablePointer) style.pointerEvents = 'none';
+        if (treatment.inert) this.element.inert = true;
+        return this;
+    }
+
+    /**
+     * Removes the treatment applied by `cover()`, restoring the layer's previous styles.
+     * @returns The UILayer instance for chaining.
+     */
+    uncover(): this {
+        if (!this.uncoveredStyle) return this;
+        this.element.style.filter = this.uncoveredStyle.filter;
+        this.element.style.pointerEvents = this.uncoveredStyle.pointerEvents;
+        this.element.inert = this.uncoveredStyle.inert;
+        this.uncoveredStyle = null;
+        return this;
+    }
+
+    /** True while the layer is covered by `cover()`. */
+    get isCovered(): boolean {
+        return this.uncoveredStyle !== null;
+    }
+
     /**
      * Finds the first element within the layer that matches the specified selector.
      * This is a shortcut for `layer.element.querySelector()`.
@@ -357,14 +411,16 @@ export class UILayer {
  * This is a singleton that creates and manages container divs within Rogue Engine's UI root.
  */
 export class UILayerManager {
-    private static _instance: UILayerManager;
+    private static _instance: UILayerManager | null = null;
 
     private layers = new Map<string, UILayer>();
     private uiRoot: HTMLElement | null = null;
+    private disposed = false;
 
     private constructor() {
         // Defer appending to DOM until RE.Runtime is ready.
         RE.onNextFrame(() => {
+            if (this.disposed) return;
             this.uiRoot = RE.Runtime.uiContainer;
             if (!this.uiRoot) {
                 FMLog.log('error', "UILayerManager: RE.Runtime.uiContainer not found. UI layers will not be attached.");
@@ -542,6 +598,27 @@ export class UILayerManager {
         return container;
     }
 
+    /**
+     * Destroys every layer, removes the device class from the UI root and releases the singleton,
+     * so that the next `getInstance()` starts from scratch. Call it when the Rogue Engine editor
+     * restarts play mode or the owning component is removed, after disposing the `FocusManager`.
+     */
+    public dispose(): void {
+        if (this.disposed) return;
+        this.disposed = true;
+
+        const topLevelLayers = Array.from(this.layers.values()).filter(l => !l.parent);
+        for (const layer of topLevelLayers) {
+            this.destroy(layer.name);
+        }
+        this.uiRoot?.classList.remove('fm-touch-device', 'fm-mouse-device');
+        this.uiRoot = null;
+
+        if (UILayerManager._instance === this) {
+            UILayerManager._instance = null;
+        }
+    }
+
     /** Removes all child elements from all UI containers. */
     public resetAll(): void {
         // Only reset top-level layers. Resetting a parent will recursively destroy its children.
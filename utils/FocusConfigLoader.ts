@@ -0,0 +1,350 @@
+import { FocusManager } from '../FocusManager';
+import type { FocusState } from '../FocusState';
+import type { UILayerCoverTreatment } from '../UILayerManager';
+import { FMLog } from './FocusLogger';
+
+/**
+ * A named callback that JSON state definitions can reference.
+ * The second argument depends on where it is used: the payload for `onEnter` and event
+ * bindings, the next state's name for `onExit`, and the `KeyboardEvent` for key bindings.
+ */
+export type FocusConfigHandler = (fm: FocusManager<any, any>, arg?: any) => void | Promise<void>;
+
+/** What a JSON event or key binding does when it fires. */
+export type FocusConfigAction =
+    | { action: 'switch' | 'push', state: string, payload?: any }
+    | { action: 'pop' }
+    | { action: 'emit', event: string, payload?: any }
+    | { action: 'call', handler: string };
+
+/** The JSON description of a single state, mirroring the `FocusState` builder. */
+export interface FocusStateDefinition {
+    name: string;
+    extends?: string;
+    ui?: {
+        layers?: { [layerName: string]: number };
+        visible?: string[];
+        preserveOnExit?: string[];
+        cleanupOnExit?: string[];
+        /** Makes the state an overlay, see `FocusState.asOverlay()`. */
+        inheritVisibleFromBelow?: boolean;
+        coveredTreatment?: UILayerCoverTreatment;
+    };
+    /** `params` are passed to the effect, e.g. `{ "color": "white" }`. */
+    transition?: { effect: string, duration?: number, params?: Record<string, any> };
+    prefabs?: string[];
+    ensureLayers?: { name: string, zIndex?: number, parent?: string }[];
+    /** Names of registered handlers to run on enter, in order. */
+    onEnter?: string[];
+    /** Names of registered handlers to run on exit, in order. */
+    onExit?: string[];
+    /** Event bindings. `switch`/`push` forward the event's payload when no static `payload` is given. */
+    /** `whenSuspended` keeps a binding active while the state is covered, see `FocusState.onEvent()`. */
+    events?: ({ event: string, whenSuspended?: boolean } & FocusConfigAction)[];
+    keys?: ({ key: string, eventType?: 'keydown' | 'keyup' | 'keypress', preventDefault?: boolean, whenSuspended?: boolean } & FocusConfigAction)[];
+}
+
+/** The root of a JSON state configuration. */
+export interface FocusConfigDocument {
+    states: FocusStateDefinition[];
+}
+
+/** Thrown by `FocusManager.registerFromConfig()` when a configuration is invalid. Nothing is registered. */
+export class FocusConfigError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid focus state configuration:\n  - ${issues.join('\n  - ')}`);
+        this.name = 'FocusConfigError';
+    }
+}
+
+const ACTIONS = ['switch', 'push', 'pop', 'emit', 'call'];
+const KEY_EVENT_TYPES = ['keydown', 'keyup', 'keypress'];
+
+/** JSON objects only: not `null`, and not arrays. */
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates JSON state definitions and turns them into registered `FocusState`s.
+ * Used by `FocusManager.registerFromConfig()`.
+ */
+export class FocusConfigLoader {
+    constructor(private focusManager: FocusManager<any, any>) {}
+
+    /**
+     * Checks a configuration against the schema and the manager's registered layers,
+     * states, transition effects and handlers.
+     * @returns A list of issues, each prefixed with the path of the offending value. Empty if the configuration is valid.
+     */
+    public validate(document: FocusConfigDocument): string[] {
+        const issues: string[] = [];
+        if (!document || typeof document !== 'object' || !Array.isArray(document.states)) {
+            return ["The configuration must be an object with a 'states' array."];
+        }
+
+        const definitions = document.states;
+        const stateNames = new Set(this.focusManager.getRegisteredStates());
+        const hasLayer = this.layerLookup(definitions);
+
+        const seen = new Set<string>();
+        definitions.forEach((definition, i) => {
+            if (!definition || typeof definition.name !== 'string' || definition.name.length === 0) return;
+            if (seen.has(definition.name)) issues.push(`states[${i}].name: duplicate state '${definition.name}'.`);
+            seen.add(definition.name);
+            stateNames.add(definition.name);
+        });
+
+        definitions.forEach((definition, i) => this.validateState(definition, `states[${i}]`, stateNames, hasLayer, issues));
+        this.validateInheritance(definitions, issues);
+        return issues;
+    }
+
+    /**
+     * Validates and registers every state in the configuration. Base states are registered before the states that extend them.
+     * @returns The names of the registered states.
+     * @throws {FocusConfigError} If the configuration is invalid. No state is registered in that case.
+     */
+    public load(document: FocusConfigDocument): string[] {
+        const issues = this.validate(document);
+        if (issues.length > 0) {
+            throw new FocusConfigError(issues);
+        }
+
+        const ordered = this.orderByInheritance(document.states);
+        for (const definition of ordered) {
+            this.focusManager.register(this.buildState(definition));
+        }
+
+        FMLog.log('lifecycle', `Registered ${ordered.length} state(s) from config.`);
+        return ordered.map(d => d.name);
+    }
+
+    private validateState(definition: FocusStateDefinition, path: string, stateNames: Set<string>, hasLayer: (name: string) => boolean, issues: string[]) {
+        if (!definition || typeof definition !== 'object') {
+            issues.push(`${path}: must be an object.`);
+            return;
+        }
+        if (typeof definition.name !== 'string' || definition.name.length === 0) {
+            issues.push(`${path}.name: must be a non-empty string.`);
+        }
+
+        if (definition.extends !== undefined && !stateNames.has(definition.extends)) {
+            issues.push(`${path}.extends: unknown state '${definition.extends}'.`);
+        }
+
+        const ui = definition.ui;
+        if (ui !== undefined && !isObject(ui)) {
+            issues.push(`${path}.ui: must be an object.`);
+        } else if (ui !== undefined) {
+            if (ui.layers !== undefined && !isObject(ui.layers)) {
+                issues.push(`${path}.ui.layers: must be an object mapping layer names to z-indexes.`);
+            } else if (ui.layers !== undefined) {
+                for (const layerName in ui.layers) {
+                    if (typeof ui.layers[layerName] !== 'number') issues.push(`${path}.ui.layers.${layerName}: z-index must be a number.`);
+                }
+            }
+            for (const key of ['visible', 'preserveOnExit', 'cleanupOnExit'] as const) {
+                const list = ui[key];
+                if (list === undefined) continue;
+                if (!Array.isArray(list)) {
+                    issues.push(`${path}.ui.${key}: must be an array of layer names.`);
+                    continue;
+                }
+                list.forEach((layerName, j) => {
+                    if (!hasLayer(layerName)) issues.push(`${path}.ui.${key}[${j}]: unknown layer '${layerName}'.`);
+                });
+            }
+            if (ui.inheritVisibleFromBelow !== undefined && typeof ui.inheritVisibleFromBelow !== 'boolean') {
+                issues.push(`${path}.ui.inheritVisibleFromBelow: must be a boolean.`);
+            }
+            if (ui.coveredTreatment !== undefined && !isObject(ui.coveredTreatment)) {
+                issues.push(`${path}.ui.coveredTreatment: must be an object.`);
+            }
+        }
+
+        if (definition.transition !== undefined && !isObject(definition.transition)) {
+            issues.push(`${path}.transition: must be an object.`);
+        } else if (definition.transition !== undefined) {
+            const { effect, duration, params } = definition.transition;
+            if (!FocusManager.hasTransitionEffect(effect)) {
+                issues.push(`${path}.transition.effect: unknown transition effect '${effect}'.`);
+            }
+            if (duration !== undefined && (typeof duration !== 'number' || duration < 0)) {
+                issues.push(`${path}.transition.duration: must be a non-negative number.`);
+            }
+            if (params !== undefined && !isObject(params)) {
+                issues.push(`${path}.transition.params: must be an object.`);
+            }
+        }
+
+        if (definition.prefabs !== undefined && (!Array.isArray(definition.prefabs) || definition.prefabs.some(p => typeof p !== 'string'))) {
+            issues.push(`${path}.prefabs: must be an array of prefab names.`);
+        }
+
+        // A list that is not an array is reported and skipped; the rest of the state is still checked.
+        const listOf = <K extends 'ensureLayers' | 'events' | 'keys'>(key: K): FocusStateDefinition[K] => {
+            if (definition[key] === undefined || Array.isArray(definition[key])) return definition[key];
+            issues.push(`${path}.${key}: must be an array.`);
+            return undefined;
+        };
+        const ensureLayers = listOf('ensureLayers');
+        const events = listOf('events');
+        const keys = listOf('keys');
+
+        ensureLayers?.forEach((layer, j) => {
+            if (typeof layer?.name !== 'string') issues.push(`${path}.ensureLayers[${j}].name: must be a string.`);
+            if (layer?.zIndex !== undefined && typeof layer.zIndex !== 'number') issues.push(`${path}.ensureLayers[${j}].zIndex: must be a number.`);
+            if (layer?.parent !== undefined && !hasLayer(layer.parent)) issues.push(`${path}.ensureLayers[${j}].parent: unknown layer '${layer.parent}'.`);
+        });
+
+        for (const hook of ['onEnter', 'onExit'] as const) {
+            const handlerNames = definition[hook];
+            if (handlerNames === undefined) continue;
+            if (!Array.isArray(handlerNames)) {
+                issues.push(`${path}.${hook}: must be an array of handler names.`);
+                continue;
+            }
+            handlerNames.forEach((handlerName, j) => {
+                if (!this.focusManager.getHandler(handlerName)) issues.push(`${path}.${hook}[${j}]: unknown handler '${handlerName}'.`);
+            });
+        }
+
+        events?.forEach((binding, j) => {
+            const bindingPath = `${path}.events[${j}]`;
+            if (typeof binding?.event !== 'string') issues.push(`${bindingPath}.event: must be a string.`);
+            this.validateAction(binding, bindingPath, stateNames, issues);
+        });
+
+        keys?.forEach((binding, j) => {
+            const bindingPath = `${path}.keys[${j}]`;
+            if (typeof binding?.key !== 'string') issues.push(`${bindingPath}.key: must be a string.`);
+            if (binding?.eventType !== undefined && !KEY_EVENT_TYPES.includes(binding.eventType)) {
+                issues.push(`${bindingPath}.eventType: must be one of ${KEY_EVENT_TYPES.join(', ')}.`);
+            }
+            this.validateAction(binding, bindingPath, stateNames, issues);
+        });
+    }
+
+    private validateAction(binding: FocusConfigAction, path: string, stateNames: Set<string>, issues: string[]) {
+        if (!binding || !ACTIONS.includes(binding.action)) {
+            issues.push(`${path}.action: must be one of ${ACTIONS.join(', ')}.`);
+            return;
+        }
+        switch (binding.action) {
+            case 'switch':
+            case 'push':
+                if (!stateNames.has(binding.state)) issues.push(`${path}.state: unknown state '${binding.state}'.`);
+                break;
+            case 'emit':
+                if (typeof binding.event !== 'string') issues.push(`${path}.event: must be the name of the event to emit.`);
+                break;
+            case 'call':
+                if (!this.focusManager.getHandler(binding.handler)) issues.push(`${path}.handler: unknown handler '${binding.handler}'.`);
+                break;
+        }
+    }
+
+    private validateInheritance(definitions: FocusStateDefinition[], issues: string[]) {
+        const byName = new Map(definitions.filter(d => d?.name).map(d => [d.name, d]));
+        for (const definition of byName.values()) {
+            const chain = [definition.name];
+            let parent = definition.extends;
+            while (parent && byName.has(parent)) {
+                if (chain.includes(parent)) {
+                    issues.push(`states '${definition.name}': circular inheritance ${[...chain, parent].join(' -> ')}.`);
+                    break;
+                }
+                chain.push(parent);
+                parent = byName.get(parent)!.extends;
+            }
+        }
+    }
+
+    /** Layers are known if a registered state or a definition declares them, or if they already exist (e.g. a global HUD). */
+    private layerLookup(definitions: FocusStateDefinition[]): (name: string) => boolean {
+        const layerNames = new Set<string>();
+
+        for (const config of this.focusManager.getRegisteredStateConfigs().values()) {
+            Object.keys(config.ui?.layers || {}).forEach(name => layerNames.add(name));
+        }
+        for (const definition of definitions) {
+            Object.keys(definition?.ui?.layers || {}).forEach(name => layerNames.add(name));
+            if (Array.isArray(definition?.ensureLayers)) definition.ensureLayers.forEach(layer => layer?.name && layerNames.add(layer.name));
+        }
+
+        const uiManager = this.focusManager.uiManager;
+        return (name: string) => layerNames.has(name) || uiManager.has(name);
+    }
+
+    private orderByInheritance(definitions: FocusStateDefinition[]): FocusStateDefinition[] {
+        const byName = new Map(definitions.map(d => [d.name, d]));
+        const ordered: FocusStateDefinition[] = [];
+        const visit = (definition: FocusStateDefinition) => {
+            if (ordered.includes(definition)) return;
+            const base = definition.extends ? byName.get(definition.extends) : undefined;
+            if (base) visit(base);
+            ordered.push(definition);
+        };
+        definitions.forEach(visit);
+        return ordered;
+    }
+
+    private buildState(definition: FocusStateDefinition): FocusState<any, any, any> {
+        const fm = this.focusManager;
+        const state = fm.create(definition.name);
+
+        if (definition.extends) state.extends(definition.extends);
+        if (isObject(definition.ui)) state.ui(definition.ui);
+        if (isObject(definition.transition)) state.withTransition(definition.transition.effect, definition.transition.duration, definition.transition.params);
+        if (definition.prefabs?.length) state.withPrefabs(...definition.prefabs);
+
+        definition.ensureLayers?.forEach(layer => {
+            state.ensureLayer(layer.name, { zIndex: layer.zIndex, parent: layer.parent });
+        });
+
+        definition.onEnter?.forEach(handlerName => state.onEnter(payload => fm.getHandler(handlerName)!(fm, payload)));
+        definition.onExit?.forEach(handlerName => state.onExit(nextState => fm.getHandler(handlerName)!(fm, nextState)));
+
+        definition.events?.forEach(binding => {
+            state.onEvent(binding.event, (fm, payload) => this.runAction(definition.name, binding, payload, true), { whenSuspended: binding.whenSuspended });
+        });
+
+        definition.keys?.forEach(binding => {
+            state.onKey(binding.eventType ?? 'keydown', binding.key, (fm, event) => {
+                if (binding.preventDefault) event.preventDefault();
+                this.runAction(definition.name, binding, event, false);
+            }, { whenSuspended: binding.whenSuspended });
+        });
+
+        return state;
+    }
+
+    /** Runs a binding's action. A transition or handler that fails is logged, since nothing awaits it. */
+    private runAction(stateName: string, binding: FocusConfigAction, arg: any, forwardPayload: boolean) {
+        const fm = this.focusManager;
+        const payload = 'payload' in binding && binding.payload !== undefined ? binding.payload : (forwardPayload ? arg : undefined);
+
+        let result: unknown;
+        switch (binding.action) {
+            case 'switch':
+                result = fm.switch(binding.state, payload);
+                break;
+            case 'push':
+                result = fm.push(binding.state, payload);
+                break;
+            case 'pop':
+                result = fm.pop();
+                break;
+            case 'emit':
+                fm.events.emit(binding.event, 'payload' in binding ? binding.payload : undefined);
+                break;
+            case 'call':
+                result = fm.getHandler(binding.handler)?.(fm, arg);
+                break;
+        }
+        Promise.resolve(result).catch(e => {
+            FMLog.log('warn', `Action '${binding.action}' bound in state '${stateName}' did not complete.`, e);
+        });
+    }
+}
@@ -1,8 +1,9 @@
 import * as RE from 'rogue-engine';
-import { FocusManager } from "../FocusManager";
+import { FocusManager, FocusLifecycleContext, FocusTransitionBlockedInfo, FocusTransitionErrorInfo } from "../FocusManager";
 import { UILayer } from '../UILayerManager';
 import { FMLog } from './FocusLogger';
 import { FocusStateConfig } from '../FocusState';
+import { FocusRecorder } from './FocusRecorder';
 
 const DEBUG_LAYER_NAME = 'focus-debug-layer';
 const DEBUG_Z_INDEX = 10000;
@@ -10,16 +11,25 @@ const DEBUG_Z_INDEX = 10000;
 /**
  * A helper class to visualize and debug FocusManager states.
  * It creates an overlay that can be toggled to show all registered states
- * and allows switching between them by clicking.
+ * and allows switching between them by clicking. The panel can also start and stop
+ * its `recorder` and copy the recording for a bug report.
  */
 export class FocusDebugger {
+    /** Records the manager's inputs. Started from the panel, or from code. */
+    public readonly recorder: FocusRecorder;
     private focusManager: FocusManager;
     private debugLayer: UILayer;
     private panelVisible = false;
     private hideTimeoutId: number | null = null;
+    private lastBlocked: FocusTransitionBlockedInfo | null = null;
+    private lastError: FocusTransitionErrorInfo | null = null;
+    private lastSwitch: { newState: string, oldState: string | null, region: string } | null = null;
+    private lastTransition: FocusLifecycleContext | null = null;
+    private unsubscribers: (() => void)[] = [];
 
     constructor(focusManager: FocusManager) {
         this.focusManager = focusManager;
+        this.recorder = new FocusRecorder(focusManager);
         const uiManager = this.focusManager.uiManager;
 
         if (uiManager.has(DEBUG_LAYER_NAME)) {
@@ -42,18 +52,69 @@ export class FocusDebugger {
 
         this.render(); // Initial render of the toggle button
 
-        window.addEventListener('keydown', (e) => {
-            if (e.key === '`') {
-                this.togglePanel();
-            }
-        });
+        window.addEventListener('keydown', this.onKeyDown);
 
-        this.focusManager.onSwitch(() => {
+        this.unsubscribers.push(this.focusManager.onSwitch((newState, oldState, region) => {
+            this.lastSwitch = { newState, oldState, region };
             // If the panel is open, re-render to show the new active state
             if (this.panelVisible) {
                 this.render();
             }
-        });
+        }));
+
+        const onAfterTransition = (context: FocusLifecycleContext) => {
+            this.lastTransition = context;
+            if (this.panelVisible) {
+                this.render();
+            }
+        };
+        this.focusManager.events.on('focus:afterTransition', onAfterTransition);
+        this.unsubscribers.push(() => this.focusManager.events.off('focus:afterTransition', onAfterTransition));
+
+        this.unsubscribers.push(this.focusManager.onTransitionBlocked((info) => {
+            this.lastBlocked = info;
+            if (this.panelVisible) {
+                this.render();
+            }
+        }));
+
+        this.unsubscribers.push(this.focusManager.onTransitionError((info) => {
+            this.lastError = info;
+            if (this.panelVisible) {
+                this.render();
+            }
+        }));
+    }
+
+    /** Removes the key listener and the FocusManager subscriptions, stops the recorder, and destroys the debug layer. */
+    public dispose() {
+        window.removeEventListener('keydown', this.onKeyDown);
+        this.recorder.stop();
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        if (this.hideTimeoutId) {
+            clearTimeout(this.hideTimeoutId);
+            this.hideTimeoutId = null;
+        }
+        this.panelVisible = false;
+        this.focusManager.uiManager.destroy(DEBUG_LAYER_NAME);
+    }
+
+    private onKeyDown = (e: KeyboardEvent) => {
+        if (e.key === '`') {
+            this.togglePanel();
+        }
+    };
+
+    /** Every region, each followed by the child machines of its states, keyed by region name. */
+    private collectMachines(): Map<string, FocusManager<any, any>> {
+        const machines = new Map<string, FocusManager<any, any>>();
+        const add = (manager: FocusManager<any, any>) => {
+            machines.set(manager.regionName, manager);
+            manager.children.forEach(add);
+        };
+        this.focusManager.regions.forEach(add);
+        return machines;
     }
 
     private togglePanel() {
@@ -82,12 +143,16 @@ export class FocusDebugger {
         const parts: string[] = [];
 
         parts.push(this.createInfoSection('Transition', config.transitionEffectName ? [config.transitionEffectName] : undefined));
+        parts.push(this.createInfoSection('Transitions From', Object.entries(config.transitionsFrom || {}).map(([from, rule]) => `${from} &rarr; ${rule.effectName}`)));
         parts.push(this.createInfoSection('Prefabs', config.managedPrefabs));
+        parts.push(this.createInfoSection('Allowed Switches', config.allowedSwitches));
+        parts.push(this.createInfoSection('Allowed Pushes', config.allowedPushes));
 
         const visibleLayers = config.ui?.visible || [];
         const preservedLayers = new Set(config.ui?.preserveOnExit || []);
         const resetLayers = visibleLayers.filter(layer => !preservedLayers.has(layer));
         parts.push(this.createInfoSection('UI: Visible', config.ui?.visible));
+        parts.push(this.createInfoSection('UI: Overlay', config.ui?.inheritVisibleFromBelow ? ['shows layers from below'] : undefined));
         parts.push(this.createInfoSection('UI: Reset on Exit (Default)', resetLayers));
         parts.push(this.createInfoSection('UI: Preserve on Exit', config.ui?.preserveOnExit));
         parts.push(this.createInfoSection('UI: Cleanup on Exit', config.ui?.cleanupOnExit));
@@ -95,6 +160,10 @@ export class FocusDebugger {
         const hooks: string[] = [];
         if (config.onEnterHookCount && config.onEnterHookCount > 0) hooks.push(`onEnter (${config.onEnterHookCount})`);
         if (config.onExitHookCount && config.onExitHookCount > 0) hooks.push(`onExit (${config.onExitHookCount})`);
+        if (config.onPauseHookCount && config.onPauseHookCount > 0) hooks.push(`onPause (${config.onPauseHookCount})`);
+        if (config.onResumeHookCount && config.onResumeHookCount > 0) hooks.push(`onResume (${config.onResumeHookCount})`);
+        if (config.canEnterGuardCount && config.canEnterGuardCount > 0) hooks.push(`canEnter (${config.canEnterGuardCount})`);
+        if (config.canExitGuardCount && config.canExitGuardCount > 0) hooks.push(`canExit (${config.canExitGuardCount})`);
         parts.push(this.createInfoSection('Lifecycle Hooks', hooks));
 
         const definedLayers = config.ui?.layers ? Object.keys(config.ui.layers) : [];
@@ -109,6 +178,24 @@ export class FocusDebugger {
         return finalHtml;
     }
 
+    private generateHistoryHtml(): string {
+        const history = this.focusManager.history;
+        if (history.length === 0) return '';
+
+        const entries = history.map((entry, index) => {
+            const label = `${entry.kind === 'push' ? '+' : ''}${entry.name}`;
+            return index === this.focusManager.historyIndex
+                ? `<strong style="color: #38bdf8;">${label}</strong>`
+                : `<span>${label}</span>`;
+        }).join(' &rsaquo; ');
+
+        return `
+            <div style="font-size: 12px; color: #888; margin-top: 10px; max-width: 90%; text-align: center;">
+                History: ${entries}
+            </div>
+        `;
+    }
+
     private render() {
         const fontUrl = "https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600&family=Georgia&display=swap";
 
@@ -157,6 +244,10 @@ export class FocusDebugger {
                 box-shadow: 0 0 20px rgba(56, 189, 248, 0.2), 0 0 40px rgba(56, 189, 248, 0.1);
                 transform: translateY(-2px) scale(1.05);
             }
+            .focus-debug-panel.reachable {
+                border-style: dashed;
+                border-color: rgba(56, 189, 248, 0.3);
+            }
             .focus-debug-panel.active:hover {
                 border-color: rgba(56, 189, 248, 0.8);
             }
@@ -205,6 +296,14 @@ export class FocusDebugger {
                 margin-bottom: 4px;
                 font-weight: 600;
             }
+            .focus-debug-region-label {
+                align-self: flex-start;
+                margin-left: 5%;
+                font-size: 12px;
+                letter-spacing: 1px;
+                text-transform: uppercase;
+                color: #38bdf8;
+            }
             .focus-debug-info-section ul {
                 list-style: none;
                 padding-left: 10px;
@@ -217,20 +316,33 @@ export class FocusDebugger {
             <link rel="stylesheet" href="${fontUrl}">
             <style>${styles.replace(/\s\s+/g, ' ')}</style>
             <div id="focus-debug-toggle" style="position: fixed; top: 10px; left: 10px; background: rgba(0,0,0,0.7); padding: 8px 12px; border-radius: 5px; cursor: pointer; pointer-events: auto; z-index: 1;">
-                Focus Debug (\`)
+                Focus Debug (\`)${this.recorder.isRecording ? ' <span style="color: #ff6b6b;">&#9679; REC</span>' : ''}
             </div>
         `;
 
         if (this.panelVisible) {
-            const allStates = this.focusManager.getRegisteredStates();
-            const allStateConfigs = this.focusManager.getRegisteredStateConfigs();
-            const currentState = this.focusManager.current;
+            const regions = this.collectMachines();
+            const showRegionNames = regions.size > 1;
+
+            const regionStrips = Array.from(regions.entries()).map(([regionName, region]) => {
+                const depth = regionName.split('/').length - 1; // Child machines are named 'region/state'
+                const currentState = region.current;
+                const currentConfig = currentState ? region.getRegisteredStateConfigs().get(currentState) : undefined;
+                const reachable = new Set([...(currentConfig?.allowedSwitches || []), ...(currentConfig?.allowedPushes || [])]);
+                const statePanels = region.getRegisteredStates().map(stateName => {
+                    const isActive = stateName === currentState;
+                    const isReachable = !isActive && reachable.has(stateName);
+                    return `
+                        <div data-region="${regionName}" data-state="${stateName}" class="focus-debug-panel ${isActive ? 'active' : ''} ${isReachable ? 'reachable' : ''}">
+                            <span>${stateName}</span>
+                        </div>
+                    `;
+                }).join('');
 
-            const statePanels = allStates.map(stateName => {
-                const isActive = stateName === currentState;
                 return `
-                    <div data-state="${stateName}" class="focus-debug-panel ${isActive ? 'active' : ''}">
-                        <span>${stateName}</span>
+                    ${showRegionNames ? `<div class="focus-debug-region-label" style="margin-left: ${5 + depth * 3}%;">${regionName} &middot; ${region.stateStack.join(' &rsaquo; ') || '(empty)'}${region.isSuspended ? ' (suspended)' : ''}</div>` : ''}
+                    <div class="focus-debug-filmstrip" style="width: ${90 - depth * 3}%; margin-left: ${depth * 3}%; display: flex; align-items: center; justify-content: flex-start; overflow-x: auto; padding: 20px 0;">
+                        ${statePanels}
                     </div>
                 `;
             }).join('');
@@ -240,12 +352,30 @@ export class FocusDebugger {
                     <h2 style="font-family: 'Georgia', serif; font-weight: 500; font-size: 24px; letter-spacing: 4px; color: #e2e2e2; text-shadow: 0 0 10px rgba(255, 255, 255, 0.1); border-bottom: 1px solid rgba(255, 255, 255, 0.1); padding-bottom: 10px; margin-bottom: 10px;">
                         SCENE FOCUSES
                     </h2>
-                    <div class="focus-debug-filmstrip" style="width: 90%; display: flex; align-items: center; justify-content: flex-start; overflow-x: auto; padding: 20px 0;">
-                        ${statePanels}
-                    </div>
+                    ${regionStrips}
                     <div id="focus-debug-info-popup" style="display: none; opacity: 0;"></div>
+                    ${this.generateHistoryHtml()}
+                    ${this.lastSwitch && showRegionNames ? `
+                    <div style="font-size: 12px; color: #888; margin-top: 10px;">
+                        Last change in '${this.lastSwitch.region}': ${this.lastSwitch.oldState ?? '(none)'} &rarr; ${this.lastSwitch.newState}
+                    </div>` : ''}
+                    ${this.lastTransition ? `
+                    <div style="font-size: 12px; color: #888; margin-top: 10px;">
+                        Last transition: ${this.lastTransition.kind} ${this.lastTransition.from ?? '(none)'} &rarr; ${this.lastTransition.to} took ${Math.round(this.lastTransition.elapsedMs)} ms (${this.lastTransition.effect ?? 'no effect'}${showRegionNames ? ` in '${this.lastTransition.region}'` : ''})
+                    </div>` : ''}
+                    ${this.lastBlocked ? `
+                    <div style="font-size: 12px; color: #ffcb6b; margin-top: 10px;">
+                        Last blocked: ${this.lastBlocked.from ?? '(none)'} &rarr; ${this.lastBlocked.to} (${this.lastBlocked.guard} of '${this.lastBlocked.blockedBy}'${showRegionNames ? ` in '${this.lastBlocked.region}'` : ''})
+                    </div>` : ''}
+                    ${this.lastError ? `
+                    <div style="font-size: 12px; color: #ff6b6b; margin-top: 10px;">
+                        Last error: ${this.lastError.kind} to ${this.lastError.to} failed${this.lastError.state ? ` in ${this.lastError.hook}${this.lastError.index >= 0 ? ` #${this.lastError.index}` : ''} of '${this.lastError.state}'` : ''} (${this.lastError.recovery}${showRegionNames ? ` in '${this.lastError.region}'` : ''})
+                    </div>` : ''}
                     <div style="position: absolute; bottom: 20px; font-size: 12px; color: #888;">
-                        Click a panel to switch focus. Press \` to close.
+                        Click a panel to switch focus. Dashed panels are declared transitions. Press \` to close.
+                        <span id="focus-debug-copy-graph" style="margin-left: 10px; color: #38bdf8; cursor: pointer;">Copy Mermaid graph</span>
+                        <span id="focus-debug-toggle-recording" style="margin-left: 10px; color: ${this.recorder.isRecording ? '#ff6b6b' : '#38bdf8'}; cursor: pointer;">${this.recorder.isRecording ? `Stop recording (${this.recorder.entryCount})` : 'Start recording'}</span>
+                        ${this.recorder.entryCount > 0 ? '<span id="focus-debug-copy-recording" style="margin-left: 10px; color: #38bdf8; cursor: pointer;">Copy recording</span>' : ''}
                     </div>
                 </div>
             `;
@@ -259,7 +389,7 @@ export class FocusDebugger {
         // Only attach state button listeners if the panel is visible
         if (this.panelVisible) {
             const infoPopup = this.debugLayer.find<HTMLDivElement>('#focus-debug-info-popup');
-            const allStateConfigs = this.focusManager.getRegisteredStateConfigs();
+            const regions = this.collectMachines();
 
             if (infoPopup) {
                 // Allow hovering over the popup itself by making it interactive.
@@ -290,7 +420,7 @@ export class FocusDebugger {
                     const stateName = target.dataset.state;
                     if (!stateName) return;
 
-                    const config = allStateConfigs.get(stateName);
+                    const config = regions.get(target.dataset.region ?? '')?.getRegisteredStateConfigs().get(stateName);
                     infoPopup.innerHTML = this.generateInfoHtml(config);
 
                     const targetRect = target.getBoundingClientRect();
@@ -307,11 +437,35 @@ export class FocusDebugger {
                 infoPopup.addEventListener('mouseout', scheduleHide);
             }
 
+            this.debugLayer.on('click', '#focus-debug-copy-graph', () => {
+                const graph = Array.from(regions.values()).map(region => region.exportGraph('mermaid')).join('\n\n');
+                navigator.clipboard.writeText(graph)
+                    .then(() => FMLog.log('debug', 'Copied the state graph to the clipboard.'))
+                    .catch(() => FMLog.log('debug', 'State graph:\n' + graph));
+            });
+
+            this.debugLayer.on('click', '#focus-debug-toggle-recording', () => {
+                if (this.recorder.isRecording) {
+                    this.recorder.stop();
+                } else {
+                    this.recorder.start();
+                }
+                this.render();
+            });
+
+            this.debugLayer.on('click', '#focus-debug-copy-recording', () => {
+                const recording = this.recorder.exportJSON();
+                navigator.clipboard.writeText(recording)
+                    .then(() => FMLog.log('debug', 'Copied the recording to the clipboard.'))
+                    .catch(() => FMLog.log('debug', 'Recording:\n' + recording));
+            });
+
             this.debugLayer.on('click', '[data-state]', (e, target) => {
                 const stateName = target.dataset.state;
-                if (stateName) {
-                    FMLog.log('debug', `Switching to state: ${stateName}`);
-                    this.focusManager.switch(stateName);
+                const region = regions.get(target.dataset.region ?? '');
+                if (stateName && region) {
+                    FMLog.log('debug', `Switching region '${region.regionName}' to state: ${stateName}`);
+                    region.switch(stateName).catch(e => FMLog.log('warn', `Debug switch to '${stateName}' did not complete.`, e));
                     this.togglePanel(); // Hide panel after switching
                 }
             });
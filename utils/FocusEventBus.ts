@@ -1,17 +1,38 @@
 type EventHandler = (payload?: any) => void;
 
+/** Maps event names to the payload type their handlers receive. */
+export type FocusEventMap = Record<string, any>;
+
+/** The event names declared by an event map. */
+export type FocusEventName<TEvents extends FocusEventMap> = keyof TEvents & string;
+
+/** A payload argument that may be omitted when its type allows `undefined`. */
+export type FocusPayloadArg<P> = undefined extends P ? [payload?: P] : [payload: P];
+
 /**
  * A simple, type-safe event bus for decoupled communication within the Focus Framework.
+ * Pass an event map to have event names and payloads checked at compile time:
+ * @example
+ * type MyEvents = { 'game:over': { score: number }, 'game:pause': undefined };
+ * const bus = new FocusEventBus<MyEvents>();
+ * bus.emit('game:over', { score: 10 });
  */
-export class FocusEventBus {
+export class FocusEventBus<TEvents extends FocusEventMap = FocusEventMap> {
     private listeners: Map<string, EventHandler[]> = new Map();
+    private emitListeners: ((eventName: string, payload: any) => void)[] = [];
+
+    /**
+     * @param parent A bus that receives the events this bus has no handlers for.
+     * Child machines use this to let unhandled events bubble up to the parent's bus.
+     */
+    constructor(private parent: FocusEventBus<any> | null = null) {}
 
     /**
      * Registers an event handler for the given event.
      * @param eventName The name of the event to listen for.
      * @param callback The function to call when the event is emitted.
      */
-    public on(eventName: string, callback: EventHandler): void {
+    public on<K extends FocusEventName<TEvents>>(eventName: K, callback: (payload: TEvents[K]) => void): void {
         if (!this.listeners.has(eventName)) {
             this.listeners.set(eventName, []);
         }
@@ -23,7 +44,7 @@ export class FocusEventBus {
      * @param eventName The name of the event.
      * @param callback The callback function to remove.
      */
-    public off(eventName: string, callback: EventHandler): void {
+    public off<K extends FocusEventName<TEvents>>(eventName: K, callback: (payload: TEvents[K]) => void): void {
         const eventListeners = this.listeners.get(eventName);
         if (eventListeners) {
             const index = eventListeners.indexOf(callback);
@@ -33,13 +54,41 @@ export class FocusEventBus {
         }
     }
 
+    /**
+     * Registers a callback to be executed for every event emitted on this bus, including events
+     * bubbled up from child buses, before the event's handlers run. Used by `FocusRecorder`.
+     * @param callback The function to call. It receives the event name and payload.
+     * @returns A function to unregister the callback.
+     */
+    public onEmit(callback: (eventName: string, payload: any) => void): () => void {
+        this.emitListeners.push(callback);
+        return () => {
+            const index = this.emitListeners.indexOf(callback);
+            if (index > -1) {
+                this.emitListeners.splice(index, 1);
+            }
+        };
+    }
+
     /**
      * Emits an event, calling all registered handlers for it.
+     * If there are none and the bus has a parent, the event is emitted on the parent instead.
      * @param eventName The name of the event to emit.
-     * @param payload Optional data to pass to the event handlers.
+     * @param payload Data to pass to the event handlers. Optional unless the event map requires it.
      */
-    public emit(eventName: string, payload?: any): void {
+    public emit<K extends FocusEventName<TEvents>>(eventName: K, ...[payload]: FocusPayloadArg<TEvents[K]>): void {
+        [...this.emitListeners].forEach(listener => {
+            try {
+                listener(eventName, payload);
+            } catch (e) {
+                console.error(`Error in emit listener for '${eventName}':`, e);
+            }
+        });
         const eventListeners = this.listeners.get(eventName);
+        if (!eventListeners?.length && this.parent) {
+            this.parent.emit(eventName, payload);
+            return;
+        }
         if (eventListeners) {
             // Iterate over a copy in case a listener modifies the array (e.g., by calling off())
             [...eventListeners].forEach(listener => {
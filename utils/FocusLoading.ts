@@ -0,0 +1,141 @@
+import type { UILayer } from '../UILayerManager';
+import type { FocusTransitionKind } from '../FocusManager';
+import { FMLog } from './FocusLogger';
+
+/**
+ * Reports how far a state's `onEnter` hooks have come, passed to every hook as its third argument.
+ * Each hook gets its own slice of the overall progress, which is filled up when the hook returns.
+ * @example
+ * fm.create('game').onEnter(async (payload, ui, progress) => {
+ *     progress.report(0, 'Loading level');
+ *     await loadLevel();
+ *     progress.report(0.5, 'Spawning enemies');
+ *     await spawnEnemies();
+ * });
+ */
+export interface FocusProgress {
+    /**
+     * @param fraction How much of this progress is done, from 0 to 1.
+     * @param label An optional description of the current step, e.g. 'Spawning enemies'.
+     */
+    report(fraction: number, label?: string): void;
+    /** A progress that covers the given part of this one, e.g. `slice(0, 0.5)` for the first half. */
+    slice(start: number, end: number): FocusProgress;
+}
+
+/** What a loading view is shown for. */
+export interface FocusLoadingContext {
+    kind: FocusTransitionKind;
+    /** The state whose `onEnter` hooks are running. */
+    state: string;
+    /** The region the transition runs in. */
+    region: string;
+}
+
+/**
+ * Renders the loading phase of a transition on top of the transition layer, registered with
+ * `FocusManager.registerLoadingView()`. It is only shown if the screen is covered by a transition
+ * effect and the state's `onEnter` hooks take longer than `FocusManager.loadingDelayMs`.
+ */
+export interface FocusLoadingView {
+    /** Called once the loading phase has outlasted the delay. Render into `layer`. */
+    show(layer: UILayer, context: FocusLoadingContext): void;
+    /** Called with the overall progress from 0 to 1, once right after `show()` and after every report. */
+    update(fraction: number, label: string | undefined, context: FocusLoadingContext): void;
+    /** Called once the hooks have finished and the view has been shown for at least `FocusManager.loadingMinDisplayMs`. Remove what `show()` rendered. */
+    hide(layer: UILayer, context: FocusLoadingContext): void;
+}
+
+class RangeProgress implements FocusProgress {
+    constructor(private sink: (fraction: number, label?: string) => void, private start = 0, private end = 1) {}
+
+    public report(fraction: number, label?: string): void {
+        const clamped = Math.min(1, Math.max(0, Number.isFinite(fraction) ? fraction : 0));
+        this.sink(this.start + (this.end - this.start) * clamped, label);
+    }
+
+    public slice(start: number, end: number): FocusProgress {
+        const span = this.end - this.start;
+        return new RangeProgress(this.sink, this.start + span * start, this.start + span * end);
+    }
+}
+
+/** A progress that ignores every report, for hooks run outside a loading phase. */
+export const noProgress: FocusProgress = new RangeProgress(() => {});
+
+/**
+ * Drives a loading view while a state's `onEnter` hooks run.
+ * @internal Created by `FocusManager` for every transition that enters a state.
+ */
+export class FocusLoadingPhase {
+    /** The progress handed to the state's `onEnter` hooks. */
+    public readonly progress: FocusProgress;
+
+    private fraction = 0;
+    private label: string | undefined = undefined;
+    private shownAt: number | null = null;
+    private delayTimer: ReturnType<typeof setTimeout> | null = null;
+    private finished = false;
+
+    constructor(
+        private view: FocusLoadingView | null,
+        private layer: UILayer | null,
+        private context: FocusLoadingContext,
+        delayMs: number,
+        private minDisplayMs: number,
+    ) {
+        this.progress = new RangeProgress((fraction, label) => this.onReport(fraction, label));
+        if (view && layer) {
+            this.delayTimer = setTimeout(() => this.show(), Math.max(0, delayMs));
+        }
+    }
+
+    /**
+     * Ends the loading phase. If the view is showing, it is hidden once it has been visible for the minimum display time.
+     * @param immediately If true, the view is hidden right away, e.g. because a hook failed.
+     */
+    public async finish(immediately = false): Promise<void> {
+        if (this.finished) return;
+        this.finished = true;
+        if (this.delayTimer !== null) clearTimeout(this.delayTimer);
+        this.delayTimer = null;
+        if (this.shownAt === null) return;
+
+        this.onReport(1, this.label);
+        const remainingMs = this.minDisplayMs - (Date.now() - this.shownAt);
+        if (!immediately && remainingMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, remainingMs));
+        }
+        this.call('hide', () => this.view!.hide(this.layer!, this.context));
+        this.shownAt = null;
+    }
+
+    private show(): void {
+        this.delayTimer = null;
+        if (this.finished) return;
+        this.shownAt = Date.now();
+        this.call('show', () => this.view!.show(this.layer!, this.context));
+        this.call('update', () => this.view!.update(this.fraction, this.label, this.context));
+    }
+
+    private onReport(fraction: number, label?: string): void {
+        // Progress never moves backwards, e.g. when a later hook reports the start of its slice.
+        const nextFraction = Math.max(this.fraction, fraction);
+        const nextLabel = label ?? this.label;
+        if (nextFraction === this.fraction && nextLabel === this.label) return;
+        this.fraction = nextFraction;
+        this.label = nextLabel;
+        if (this.shownAt !== null) {
+            this.call('update', () => this.view!.update(this.fraction, this.label, this.context));
+        }
+    }
+
+    /** A broken loading view must never break the transition it decorates. */
+    private call(method: keyof FocusLoadingView, run: () => void): void {
+        try {
+            run();
+        } catch (e) {
+            FMLog.log('error', `Loading view failed in '${method}' while entering state '${this.context.state}'.`, e);
+        }
+    }
+}
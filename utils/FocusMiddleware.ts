@@ -0,0 +1,51 @@
+import type { FocusManager, FocusTransitionKind } from '../FocusManager';
+
+/** What a middleware knows about the transition it wraps. */
+export interface FocusMiddlewareContext {
+    kind: FocusTransitionKind;
+    /** The state being left: the previous top of the stack, or the popped state. */
+    from: string | null;
+    /** The state being entered: the new top of the stack, or the resumed state. */
+    to: string;
+    /** The payload the new state will be entered with. Assign to it before calling `next()` to change it. Unused for `pop()`. */
+    payload: any;
+    /** The region the transition runs in. */
+    region: string;
+    /** The stack before the transition, with the active state at the end. */
+    readonly stackBefore: readonly string[];
+    /** The stack after the transition. Null until `next()` has resolved or rejected. */
+    stackAfter: readonly string[] | null;
+    /** The manager running the transition. */
+    readonly manager: FocusManager<any, any>;
+}
+
+/**
+ * Wraps every transition of a manager. Code before `await next()` runs before anything is torn
+ * down, and code after it runs once the transition, including its effect, has finished.
+ * Returning without calling `next()` aborts the transition, which is then reported to
+ * `onTransitionBlocked` listeners like a guard veto. `next()` rejects with a `FocusTransitionError`
+ * if a hook failed, after the manager has recovered.
+ * @example
+ * fm.use(async (ctx, next) => {
+ *     if (ctx.from === 'game') await saveGame();
+ *     await next();
+ *     analytics.track('screen', { name: ctx.to });
+ * });
+ */
+export type FocusMiddleware = (context: FocusMiddlewareContext, next: () => Promise<void>) => void | Promise<void>;
+
+/**
+ * A reusable bundle of behavior for a `FocusManager`, installed with `fm.use(plugin)`.
+ * Plugins can contribute middleware, and can subscribe to anything else on the manager in `install()`.
+ */
+export interface FocusPlugin {
+    /** A unique name. A plugin is only installed once per manager. */
+    name: string;
+    /** Middleware added to the manager when the plugin is installed, in order. */
+    middleware?: FocusMiddleware | FocusMiddleware[];
+    /**
+     * Called once when the plugin is installed.
+     * @returns An optional function that undoes the installation.
+     */
+    install?(fm: FocusManager<any, any>): void | (() => void);
+}
@@ -0,0 +1,468 @@
+import * as RE from 'rogue-engine';
+import type { FocusManager, FocusInput, FocusNavigationMethod, FocusSnapshot } from '../FocusManager';
+import type { FocusEventBus } from './FocusEventBus';
+import { FMLog } from './FocusLogger';
+
+const RECORDING_VERSION = 1;
+const NAVIGATION_METHODS: readonly FocusNavigationMethod[] = ['switch', 'push', 'pop', 'replace', 'popTo', 'popMany', 'back', 'forward'];
+const PAYLOAD_METHODS: readonly FocusNavigationMethod[] = ['switch', 'push', 'replace'];
+
+/** How a recorded call ended, and the stack right after. */
+export interface FocusRecordedOutcome {
+    status: 'resolved' | 'rejected';
+    /** The name and message of the error the call was rejected with. */
+    error?: { name: string, message: string };
+    /** Milliseconds since the recording started. */
+    at: number;
+    stack: string[];
+}
+
+/** A navigation call, e.g. `push('pause-menu')`. */
+export interface FocusRecordedCall {
+    type: 'call';
+    /** Milliseconds since the recording started. */
+    at: number;
+    method: FocusNavigationMethod;
+    /** The arguments, with payloads passed through the target state's `withPayloadSerializer()`. */
+    args: any[];
+    /** True if the call was made while a transition was running, e.g. from a state hook. */
+    inTransition: boolean;
+    /** Missing until the call has settled. */
+    outcome?: FocusRecordedOutcome;
+}
+
+/** An event emitted on the manager's bus. Lifecycle events are not recorded. */
+export interface FocusRecordedEvent {
+    type: 'event';
+    at: number;
+    name: string;
+    payload?: any;
+}
+
+/** A key event handled by a state's `onKey()` listener. */
+export interface FocusRecordedKey {
+    type: 'key';
+    at: number;
+    eventType: string;
+    key: string;
+    code: string;
+    shiftKey: boolean;
+    ctrlKey: boolean;
+    altKey: boolean;
+    metaKey: boolean;
+    repeat: boolean;
+    /** The state whose listener handled it. */
+    state: string;
+}
+
+export type FocusRecordedEntry = FocusRecordedCall | FocusRecordedEvent | FocusRecordedKey;
+
+/** The JSON-serializable result of `FocusRecorder.export()`. */
+export interface FocusRecording {
+    version: number;
+    /** The region the recording was taken from. */
+    region: string;
+    /** When the recording started, as an ISO date. */
+    recordedAt: string;
+    durationMs: number;
+    /** A snapshot of the manager when the recording started, or null if its stack was empty. */
+    initial: FocusSnapshot | null;
+    entries: FocusRecordedEntry[];
+}
+
+/**
+ * Copies a value into a JSON-safe form. Functions are dropped, and objects that are not plain data,
+ * like a `THREE.Object3D`, are replaced by an `{ $unrecordable: 'ClassName' }` marker.
+ */
+function toRecordable(value: any, seen = new Set<object>()): any {
+    if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') return undefined;
+    if (typeof value === 'number' && !Number.isFinite(value)) return null;
+    if (value === null || typeof value !== 'object') return value;
+
+    if (seen.has(value)) return { $unrecordable: 'circular' };
+    const prototype = Object.getPrototypeOf(value);
+    if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+        return { $unrecordable: value.constructor?.name || 'object' };
+    }
+
+    seen.add(value);
+    const copy = Array.isArray(value)
+        ? value.map(item => toRecordable(item, seen) ?? null)
+        : Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toRecordable(item, seen)]).filter(([, item]) => item !== undefined));
+    seen.delete(value);
+    return copy;
+}
+
+/** The recordable arguments of a navigation call. Omitted arguments are recorded as null, and trailing ones are cut off. */
+function recordArgs(fm: FocusManager<any, any>, method: FocusNavigationMethod, args: any[]): any[] {
+    const recorded = args.map((arg, index) => {
+        const serialize = index === 1 && PAYLOAD_METHODS.includes(method) ? fm.getRegisteredStateConfigs().get(args[0])?.serializePayload : undefined;
+        return toRecordable(serialize && arg !== undefined ? serialize(arg) : arg) ?? null;
+    });
+    while (recorded.length > 0 && recorded[recorded.length - 1] === null) recorded.pop();
+    return recorded;
+}
+
+/** Describes a call or an event, e.g. `push("pause-menu", {"score":3})`. Doubles as the key inputs are matched by. */
+function describeCall(method: string, args: any[]): string {
+    return `${method}(${args.map(arg => JSON.stringify(arg)).join(', ')})`;
+}
+
+function describeEvent(name: string, payload: any): string {
+    return describeCall('emit', payload === undefined ? [name] : [name, payload]);
+}
+
+function outcomeOf(fm: FocusManager<any, any>, at: number, rejected: boolean, error?: any): FocusRecordedOutcome {
+    const outcome: FocusRecordedOutcome = { status: rejected ? 'rejected' : 'resolved', at, stack: [...fm.stateStack] };
+    if (rejected) outcome.error = { name: error?.name ?? 'Error', message: String(error?.message ?? error) };
+    return outcome;
+}
+
+/**
+ * Records what drives a manager: navigation calls with their payloads and outcomes, events emitted on
+ * its bus, and key events its states handle. Export a recording to attach it to a bug report, and feed it
+ * back into a fresh manager with `FocusReplayer`. Calls on regions and child machines are not recorded;
+ * they are reproduced by the recorded inputs that caused them.
+ * @example
+ * const recorder = new FocusRecorder(fm);
+ * recorder.start();
+ * // ... reproduce the bug ...
+ * recorder.stop();
+ * console.log(recorder.exportJSON());
+ */
+export class FocusRecorder {
+    private entries: FocusRecordedEntry[] = [];
+    private initial: FocusSnapshot | null = null;
+    private recordedAt = '';
+    private startedAt = 0;
+    private stoppedAt: number | null = null;
+    private lastKeyEvent: KeyboardEvent | null = null; // One key event can be handled by several listeners
+    private unsubscribers: (() => void)[] = [];
+
+    constructor(private fm: FocusManager<any, any>) {}
+
+    public get isRecording(): boolean {
+        return this.unsubscribers.length > 0;
+    }
+
+    /** The number of entries recorded so far. */
+    public get entryCount(): number {
+        return this.entries.length;
+    }
+
+    /** Starts a new recording, discarding the previous one. */
+    public start(): void {
+        if (this.isRecording) {
+            FMLog.log('warn', 'The recorder is already recording.');
+            return;
+        }
+
+        this.entries = [];
+        this.initial = this.fm.stateStack.length > 0 ? toRecordable(this.fm.snapshot()) : null;
+        this.recordedAt = new Date().toISOString();
+        this.startedAt = performance.now();
+        this.stoppedAt = null;
+        this.lastKeyEvent = null;
+
+        this.unsubscribers.push(this.fm.onInput(input => this.recordInput(input)));
+        this.unsubscribers.push(this.fm.events.onEmit((eventName, payload) => {
+            if (eventName.startsWith('focus:')) return; // Lifecycle events are outputs, not inputs
+            const entry: FocusRecordedEvent = { type: 'event', at: this.elapsed(), name: eventName };
+            const recordable = toRecordable(payload);
+            if (recordable !== undefined) entry.payload = recordable;
+            this.entries.push(entry);
+        }));
+        FMLog.log('debug', `Started recording region '${this.fm.regionName}'.`);
+    }
+
+    /** Stops recording. Calls that are still running get their outcome once they settle. */
+    public stop(): void {
+        if (!this.isRecording) return;
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.stoppedAt = performance.now();
+        FMLog.log('debug', `Stopped recording after ${this.entries.length} entries.`);
+    }
+
+    /** The recording so far, or the last one once stopped. */
+    public export(): FocusRecording {
+        return {
+            version: RECORDING_VERSION,
+            region: this.fm.regionName,
+            recordedAt: this.recordedAt,
+            durationMs: (this.stoppedAt ?? performance.now()) - this.startedAt,
+            initial: this.initial,
+            entries: this.entries.map(entry => ({ ...entry })),
+        };
+    }
+
+    /** The recording as a JSON string, e.g. to paste into a bug report. */
+    public exportJSON(): string {
+        return JSON.stringify(this.export(), null, 2);
+    }
+
+    private elapsed(): number {
+        return performance.now() - this.startedAt;
+    }
+
+    private recordInput(input: FocusInput): void {
+        if (input.type === 'key') {
+            if (input.event === this.lastKeyEvent) return;
+            this.lastKeyEvent = input.event;
+            const { type: eventType, key, code, shiftKey, ctrlKey, altKey, metaKey, repeat } = input.event;
+            this.entries.push({ type: 'key', at: this.elapsed(), eventType, key, code, shiftKey, ctrlKey, altKey, metaKey, repeat, state: input.state });
+            return;
+        }
+
+        const entry: FocusRecordedCall = {
+            type: 'call',
+            at: this.elapsed(),
+            method: input.method,
+            args: recordArgs(this.fm, input.method, input.args),
+            inTransition: this.fm.isTransitioning,
+        };
+        this.entries.push(entry);
+        input.result.then(
+            () => { entry.outcome = outcomeOf(this.fm, this.elapsed(), false); },
+            error => { entry.outcome = outcomeOf(this.fm, this.elapsed(), true, error); },
+        );
+    }
+}
+
+/** Options for `FocusReplayer.play()`. */
+export interface FocusReplayOptions {
+    /**
+     * How fast to replay, e.g. 2 for twice the recorded speed. Defaults to 1. Effects and timers in
+     * state hooks don't speed up, so a faster replay can call ahead of a hook; the hook's own call
+     * then shows up in `unexpected`.
+     */
+    speed?: number;
+}
+
+/** A recorded call whose replay ended differently. */
+export interface FocusReplayDivergence {
+    /** The call's index in the recording's entries. */
+    index: number;
+    entry: FocusRecordedCall;
+    expected: FocusRecordedOutcome;
+    actual: FocusRecordedOutcome;
+}
+
+/** What `FocusReplayer` found. */
+export interface FocusReplayReport {
+    /** The entries the replayer fed to the manager itself. */
+    fed: number;
+    /** The recorded calls and events the manager reproduced on its own, e.g. a `pop()` made by a replayed key's listener. */
+    reproduced: number;
+    /** Every call whose outcome or resulting stack differs from the recording, in recording order. The first one is where the replay diverged. */
+    divergences: FocusReplayDivergence[];
+    /** Calls and events the manager made on its own that the recording doesn't have, e.g. `push("pause-menu")`. */
+    unexpected: string[];
+}
+
+/**
+ * Feeds a recording into a fresh manager that has the same states registered, and reports where the
+ * resulting stacks diverge from the recorded ones. Replay either in real time with `play()`, or one
+ * entry at a time with `step()` followed by `finish()`.
+ *
+ * Recorded keys are dispatched on the document and recorded events are emitted, so the manager's
+ * listeners reproduce the calls they made. A recorded call that the manager, one of its listeners or
+ * hooks has already made again is matched instead of being called twice. A call recorded during a
+ * transition waits for one frame to be matched before it is made.
+ * @example
+ * const replayer = new FocusReplayer(fm, JSON.parse(bugReport));
+ * const report = await replayer.play();
+ * if (report.divergences.length > 0) console.log('Diverged at', report.divergences[0]);
+ */
+export class FocusReplayer {
+    private position = 0;
+    private started = false;
+    private finished = false;
+    private startedAt = 0;
+    private fed = 0;
+    private reproduced = 0;
+    private spontaneous: { description: string, result?: Promise<void> }[] = []; // Inputs the manager made on its own, not yet matched
+    private ownCall = false;
+    private ownEmit = false;
+    private outcomes: Promise<void>[] = [];
+    private divergences: FocusReplayDivergence[] = [];
+    private unsubscribers: (() => void)[] = [];
+
+    /**
+     * @param fm The manager to replay into.
+     * @param recording A recording exported by `FocusRecorder`, or parsed from its JSON.
+     * @throws {Error} If the recording has an unsupported format.
+     */
+    constructor(private fm: FocusManager<any, any>, private recording: FocusRecording) {
+        if (recording?.version !== RECORDING_VERSION || !Array.isArray(recording.entries)) {
+            throw new Error('Cannot replay: unsupported recording format.');
+        }
+    }
+
+    /** True once every entry has been replayed. */
+    public get done(): boolean {
+        return this.position >= this.recording.entries.length;
+    }
+
+    /** The entry the next `step()` replays, or null when done. */
+    public get nextEntry(): FocusRecordedEntry | null {
+        return this.recording.entries[this.position] ?? null;
+    }
+
+    /** What was found so far. Divergences of calls that are still running are added once they settle. */
+    public get report(): FocusReplayReport {
+        return {
+            fed: this.fed,
+            reproduced: this.reproduced,
+            divergences: [...this.divergences].sort((a, b) => a.index - b.index),
+            unexpected: this.spontaneous.map(input => input.description),
+        };
+    }
+
+    /**
+     * Replays the next entry. The first step restores the recording's initial snapshot, if it has one.
+     * @returns The replayed entry, or null when done.
+     */
+    public async step(): Promise<FocusRecordedEntry | null> {
+        if (!this.started) await this.begin();
+        const index = this.position;
+        const entry = this.recording.entries[index];
+        if (!entry || this.finished) return null;
+        this.position++;
+
+        switch (entry.type) {
+            case 'key':
+                this.fed++;
+                document.dispatchEvent(new KeyboardEvent(entry.eventType, {
+                    key: entry.key, code: entry.code, shiftKey: entry.shiftKey, ctrlKey: entry.ctrlKey,
+                    altKey: entry.altKey, metaKey: entry.metaKey, repeat: entry.repeat, bubbles: true, cancelable: true,
+                }));
+                break;
+            case 'event':
+                if (this.takeSpontaneous(describeEvent(entry.name, entry.payload))) break;
+                this.fed++;
+                this.ownEmit = true;
+                (this.fm.events as FocusEventBus).emit(entry.name, entry.payload);
+                this.ownEmit = false;
+                break;
+            case 'call': {
+                if (!NAVIGATION_METHODS.includes(entry.method)) {
+                    FMLog.log('warn', `Skipped recorded call to unknown method '${entry.method}'.`);
+                    break;
+                }
+                const description = describeCall(entry.method, entry.args);
+                let match = this.takeSpontaneous(description);
+                if (!match && entry.inTransition) {
+                    // The hook that made it may not have run yet in this replay.
+                    await new Promise<void>(resolve => RE.onNextFrame(resolve));
+                    match = this.takeSpontaneous(description);
+                }
+                this.track(index, entry, match ? match.result : this.call(entry));
+                break;
+            }
+            default:
+                FMLog.log('warn', `Skipped recorded entry of unknown type '${(entry as any).type}'.`);
+        }
+        return entry;
+    }
+
+    /**
+     * Replays the remaining entries at their recorded times, then finishes.
+     * @returns The report, once every replayed call has settled.
+     */
+    public async play(options: FocusReplayOptions = {}): Promise<FocusReplayReport> {
+        const speed = options.speed !== undefined && options.speed > 0 ? options.speed : 1;
+        if (!this.started) await this.begin();
+
+        const offset = this.recording.entries[this.position - 1]?.at ?? 0;
+        const origin = performance.now();
+        while (!this.done && !this.finished) {
+            const waitMs = origin + (this.nextEntry!.at - offset) / speed - performance.now();
+            if (waitMs > 0) await new Promise(resolve => setTimeout(resolve, waitMs));
+            await this.step();
+        }
+        return this.finish();
+    }
+
+    /**
+     * Waits for every replayed call to settle and stops replaying. Entries that were not stepped through are skipped.
+     * @returns The final report.
+     */
+    public async finish(): Promise<FocusReplayReport> {
+        this.finished = true;
+        for (let settled = 0; settled < this.outcomes.length;) {
+            const pending = this.outcomes.slice(settled);
+            settled = this.outcomes.length;
+            await Promise.all(pending);
+        }
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        return this.report;
+    }
+
+    private async begin(): Promise<void> {
+        this.started = true;
+        if (this.recording.initial) {
+            await this.fm.restore(this.recording.initial);
+        }
+        this.startedAt = performance.now();
+
+        this.unsubscribers.push(this.fm.onInput(input => {
+            if (input.type !== 'call') return;
+            if (this.ownCall) {
+                this.ownCall = false;
+                return;
+            }
+            this.spontaneous.push({ description: describeCall(input.method, recordArgs(this.fm, input.method, input.args)), result: input.result });
+        }));
+        this.unsubscribers.push(this.fm.events.onEmit((eventName, payload) => {
+            if (eventName.startsWith('focus:')) return;
+            if (this.ownEmit) {
+                this.ownEmit = false;
+                return;
+            }
+            this.spontaneous.push({ description: describeEvent(eventName, toRecordable(payload)) });
+        }));
+    }
+
+    /** Removes and returns the oldest unmatched input the manager made on its own with the given description. */
+    private takeSpontaneous(description: string): { result?: Promise<void> } | null {
+        const index = this.spontaneous.findIndex(input => input.description === description);
+        if (index < 0) return null;
+        this.reproduced++;
+        return this.spontaneous.splice(index, 1)[0];
+    }
+
+    private call(entry: FocusRecordedCall): Promise<void> {
+        const args = entry.args.map(arg => arg ?? undefined);
+        const deserialize = PAYLOAD_METHODS.includes(entry.method) ? this.fm.getRegisteredStateConfigs().get(args[0])?.deserializePayload : undefined;
+        if (deserialize && args[1] !== undefined) args[1] = deserialize(args[1]);
+
+        this.fed++;
+        this.ownCall = true;
+        try {
+            return (this.fm[entry.method] as (...args: any[]) => Promise<void>).apply(this.fm, args);
+        } catch (e) {
+            return Promise.reject(e);
+        } finally {
+            this.ownCall = false;
+        }
+    }
+
+    /** Compares the outcome of a replayed call with the recorded one once it settles. */
+    private track(index: number, entry: FocusRecordedCall, result: Promise<void> | undefined): void {
+        const expected = entry.outcome;
+        if (!expected || !result) return;
+
+        this.outcomes.push(result.then(
+            () => outcomeOf(this.fm, performance.now() - this.startedAt, false),
+            error => outcomeOf(this.fm, performance.now() - this.startedAt, true, error),
+        ).then(actual => {
+            const sameStack = actual.stack.length === expected.stack.length && actual.stack.every((name, i) => name === expected.stack[i]);
+            if (actual.status !== expected.status || actual.error?.name !== expected.error?.name || !sameStack) {
+                this.divergences.push({ index, entry, expected, actual });
+                FMLog.log('warn', `Replay diverged at entry #${index} ${describeCall(entry.method, entry.args)}: expected [${expected.stack.join(', ')}] (${expected.status}), got [${actual.stack.join(', ')}] (${actual.status}).`);
+            }
+        }));
+    }
+}
@@ -0,0 +1,60 @@
+import { FMLog } from './FocusLogger';
+
+/**
+ * A key-value store used by `FocusManager.persist()` to save and load snapshots.
+ * Methods may be synchronous or return promises.
+ */
+export interface FocusStorageAdapter {
+    load(key: string): string | null | Promise<string | null>;
+    save(key: string, value: string): void | Promise<void>;
+    remove(key: string): void | Promise<void>;
+}
+
+/**
+ * Stores snapshots in `window.localStorage`. This is the default adapter.
+ * Failures (e.g. storage disabled in private browsing) are logged instead of thrown.
+ */
+export const FocusLocalStorage: FocusStorageAdapter = {
+    load(key: string): string | null {
+        try {
+            return window.localStorage.getItem(key);
+        } catch (e) {
+            FMLog.log('warn', `Could not read '${key}' from localStorage.`, e);
+            return null;
+        }
+    },
+    save(key: string, value: string): void {
+        try {
+            window.localStorage.setItem(key, value);
+        } catch (e) {
+            FMLog.log('warn', `Could not write '${key}' to localStorage.`, e);
+        }
+    },
+    remove(key: string): void {
+        try {
+            window.localStorage.removeItem(key);
+        } catch (e) {
+            FMLog.log('warn', `Could not remove '${key}' from localStorage.`, e);
+        }
+    },
+};
+
+/**
+ * Keeps snapshots in memory. Useful for tests, or to carry state across a
+ * `FocusManager` re-creation without touching the browser's storage.
+ */
+export class FocusMemoryStorage implements FocusStorageAdapter {
+    private data = new Map<string, string>();
+
+    load(key: string): string | null {
+        return this.data.get(key) ?? null;
+    }
+
+    save(key: string, value: string): void {
+        this.data.set(key, value);
+    }
+
+    remove(key: string): void {
+        this.data.delete(key);
+    }
+}
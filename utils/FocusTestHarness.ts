@@ -0,0 +1,317 @@
+import * as RE from 'rogue-engine';
+import * as THREE from 'three';
+import { FocusManager } from '../FocusManager';
+import type { FocusStateMap } from '../FocusState';
+import { UILayerManager } from '../UILayerManager';
+import type { FocusEventBus, FocusEventMap, FocusEventName, FocusPayloadArg } from './FocusEventBus';
+import { FMLog } from './FocusLogger';
+import { Runtime, FocusTestRuntimeControl } from './FocusTestRuntime';
+
+type ClockTimer = { id: number, at: number, callback: (...args: any[]) => void, args: any[], intervalMs: number | null };
+
+// Captured before any clock is installed, so pending promises can always be flushed for real.
+const realSetImmediate: ((callback: () => void) => void) | undefined = (globalThis as any).setImmediate;
+const realSetTimeout = setTimeout;
+const realDefer = (callback: () => void) => realSetImmediate ? realSetImmediate(callback) : realSetTimeout(callback, 0);
+
+/** Lets every promise that is ready to continue run, including chains of them. */
+function flushPromises(): Promise<void> {
+    return new Promise(resolve => realDefer(resolve));
+}
+
+/** Thrown by the `expect*` helpers of `FocusTestHarness`. */
+export class FocusTestAssertionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FocusTestAssertionError';
+    }
+}
+
+/**
+ * A controllable clock. While installed, it replaces `setTimeout`, `setInterval`, `requestAnimationFrame`,
+ * `Date.now()` and `performance.now()`, so transition effects and loading delays only take simulated time.
+ */
+export class FocusTestClock {
+    private nowMs = 0;
+    private timers: ClockTimer[] = [];
+    private nextId = 1;
+    private restoreGlobals: (() => void)[] = [];
+
+    /** The simulated time in milliseconds since the clock was created. */
+    public get now(): number {
+        return this.nowMs;
+    }
+
+    /** The number of timers and animation frames that have not fired yet. */
+    public get pendingTimers(): number {
+        return this.timers.length;
+    }
+
+    /** Replaces the global timer functions. Safe to call more than once. */
+    public install(): void {
+        if (this.restoreGlobals.length > 0) return;
+
+        const fakes: Record<string, Function> = {
+            setTimeout: (callback: (...args: any[]) => void, ms = 0, ...args: any[]) => this.schedule(callback, ms, args, null),
+            clearTimeout: (id: number) => this.cancel(id),
+            setInterval: (callback: (...args: any[]) => void, ms = 0, ...args: any[]) => this.schedule(callback, ms, args, Math.max(1, ms)),
+            clearInterval: (id: number) => this.cancel(id),
+            requestAnimationFrame: (callback: (time: number) => void) => this.schedule(() => callback(this.nowMs), 0, [], null),
+            cancelAnimationFrame: (id: number) => this.cancel(id),
+        };
+        // Under jsdom, `window` may be a different object than the global scope.
+        const targets = new Set<any>([globalThis]);
+        if (typeof window !== 'undefined') targets.add(window);
+        for (const target of targets) {
+            for (const name in fakes) {
+                const original = target[name];
+                target[name] = fakes[name];
+                this.restoreGlobals.push(() => { target[name] = original; });
+            }
+            const performance = target.performance;
+            if (performance) {
+                const originalNow = performance.now;
+                performance.now = () => this.nowMs;
+                this.restoreGlobals.push(() => { performance.now = originalNow; });
+            }
+        }
+
+        const originalDateNow = Date.now;
+        const epoch = originalDateNow();
+        Date.now = () => epoch + this.nowMs;
+        this.restoreGlobals.push(() => { Date.now = originalDateNow; });
+    }
+
+    /** Restores the global timer functions. Timers that have not fired are dropped. */
+    public uninstall(): void {
+        [...this.restoreGlobals].reverse().forEach(restore => restore());
+        this.restoreGlobals = [];
+        this.timers = [];
+    }
+
+    /**
+     * Moves time forward, firing due timers in order and letting promises settle after each one.
+     * @param ms The simulated milliseconds to advance by.
+     */
+    public async advance(ms: number): Promise<void> {
+        const target = this.nowMs + Math.max(0, ms);
+        for (;;) {
+            const due = this.timers
+                .filter(timer => timer.at <= target)
+                .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+            if (!due) break;
+
+            this.nowMs = Math.max(this.nowMs, due.at);
+            if (due.intervalMs !== null) {
+                due.at += due.intervalMs;
+            } else {
+                this.timers.splice(this.timers.indexOf(due), 1);
+            }
+            try {
+                due.callback(...due.args);
+            } catch (e) {
+                FMLog.log('error', 'Error in a timer callback of the test clock', e);
+            }
+            await flushPromises();
+        }
+        this.nowMs = target;
+        await flushPromises();
+    }
+
+    private schedule(callback: (...args: any[]) => void, ms: number, args: any[], intervalMs: number | null): number {
+        const id = this.nextId++;
+        this.timers.push({ id, at: this.nowMs + Math.max(0, ms), callback, args, intervalMs });
+        return id;
+    }
+
+    private cancel(id: number): void {
+        const index = this.timers.findIndex(timer => timer.id === id);
+        if (index > -1) this.timers.splice(index, 1);
+    }
+}
+
+/** Options for `FocusTestHarness`. */
+export interface FocusTestHarnessOptions {
+    /** The duration of one pumped frame in milliseconds. Defaults to 16. */
+    frameMs?: number;
+    /** The most simulated time `settle()` and `run()` wait for before failing, in milliseconds. Defaults to 10000. */
+    settleTimeoutMs?: number;
+}
+
+/**
+ * Runs a `FocusManager` headless under Node and jsdom, on the stand-in runtime in `FocusTestRuntime.ts`,
+ * which the test runner must use in place of `rogue-engine`. The harness owns the frame pump and a
+ * `FocusTestClock`, so transitions, effects and timers only advance when the test says so.
+ * Call `dispose()` after every test.
+ * @example
+ * const harness = new FocusTestHarness<States, Events>();
+ * registerStates(harness.fm);
+ * await harness.run(harness.fm.switch('game'));
+ * await harness.pressKey('Escape');
+ * harness.expectStack(['game', 'pause-menu']);
+ * harness.expectLayerVisible('pause-layer');
+ * await harness.dispose();
+ */
+export class FocusTestHarness<TStates extends FocusStateMap = FocusStateMap, TEvents extends FocusEventMap = FocusEventMap> {
+    public readonly clock = new FocusTestClock();
+    public readonly fm: FocusManager<TStates, TEvents>;
+
+    private readonly frameMs: number;
+    private readonly settleTimeoutMs: number;
+
+    constructor(options: FocusTestHarnessOptions = {}) {
+        if ((RE.Runtime as unknown) !== Runtime) {
+            throw new Error("FocusTestHarness needs 'rogue-engine' to resolve to utils/FocusTestRuntime.ts. Add a module alias in the test runner's configuration.");
+        }
+        this.frameMs = options.frameMs ?? 16;
+        this.settleTimeoutMs = options.settleTimeoutMs ?? 10000;
+
+        FocusTestRuntimeControl.reset();
+        UILayerManager.getInstance().dispose(); // Drop a singleton attached to an earlier test's container.
+        this.clock.install();
+        this.fm = new FocusManager<TStates, TEvents>();
+    }
+
+    /** The in-memory scene prefabs are instantiated into. */
+    public get scene(): THREE.Scene {
+        return Runtime.scene;
+    }
+
+    /** The element UI layers are attached to, in place of `RE.Runtime.uiContainer`. */
+    public get container(): HTMLElement {
+        return Runtime.uiContainer;
+    }
+
+    /** False while a transition of any region or child machine is running or queued, or a frame callback is waiting. */
+    public get isSettled(): boolean {
+        const busy = (manager: FocusManager<any, any>): boolean =>
+            manager.isTransitioning || manager.pendingTransitions.length > 0 || Array.from(manager.children.values()).some(busy);
+        return FocusTestRuntimeControl.pendingFrameCallbacks === 0 && !Array.from(this.fm.regions.values()).some(busy);
+    }
+
+    /**
+     * Makes a prefab available to `withPrefabs()` and `PrefabUtil`.
+     * @param path The prefab path, e.g. 'Prefabs/Enemy'. States can refer to it by its file name.
+     * @param factory Creates an instance. Defaults to an empty `Object3D`.
+     */
+    public registerPrefab(path: string, factory: () => THREE.Object3D = () => new THREE.Object3D()): this {
+        FocusTestRuntimeControl.registerPrefab(path, factory);
+        return this;
+    }
+
+    /** The instances of a prefab that are currently in the scene. */
+    public instancesOf(path: string): THREE.Object3D[] {
+        const instances: THREE.Object3D[] = [];
+        this.scene.traverse(object => {
+            if (object.userData.prefabPath === path) instances.push(object);
+        });
+        return instances;
+    }
+
+    /**
+     * Pumps one frame: the clock advances, then the runtime's frame and update callbacks run.
+     * @param deltaMs The frame duration. Defaults to the harness's `frameMs`.
+     */
+    public async frame(deltaMs = this.frameMs): Promise<void> {
+        await this.clock.advance(deltaMs);
+        FocusTestRuntimeControl.frame(deltaMs);
+        await this.clock.advance(0);
+    }
+
+    /** Pumps frames until `ms` of simulated time have passed. */
+    public async advance(ms: number): Promise<void> {
+        for (let remaining = ms; remaining > 0; remaining -= this.frameMs) {
+            await this.frame(Math.min(this.frameMs, remaining));
+        }
+    }
+
+    /**
+     * Pumps frames until every transition has finished.
+     * @throws {FocusTestAssertionError} If that takes longer than `settleTimeoutMs` of simulated time.
+     */
+    public async settle(): Promise<void> {
+        await this.clock.advance(0);
+        for (let elapsedMs = 0; !this.isSettled; elapsedMs += this.frameMs) {
+            if (elapsedMs >= this.settleTimeoutMs) {
+                throw new FocusTestAssertionError(`Did not settle within ${this.settleTimeoutMs} ms. Stack: [${this.fm.stateStack.join(', ')}], pending: ${this.fm.pendingTransitions.map(t => t.kind).join(', ') || 'none'}.`);
+            }
+            await this.frame();
+        }
+    }
+
+    /**
+     * Pumps frames until the given promise, e.g. the one returned by `switch()`, has settled, and then until
+     * everything else has too.
+     * @returns The promise's result. A rejection is rethrown.
+     */
+    public async run<T>(promise: Promise<T>): Promise<T> {
+        let outcome: { value: T } | { error: unknown } | null = null;
+        promise.then(value => { outcome = { value }; }, error => { outcome = { error }; });
+
+        await this.clock.advance(0);
+        for (let elapsedMs = 0; outcome === null; elapsedMs += this.frameMs) {
+            if (elapsedMs >= this.settleTimeoutMs) {
+                throw new FocusTestAssertionError(`The promise did not settle within ${this.settleTimeoutMs} ms.`);
+            }
+            await this.frame();
+        }
+        await this.settle();
+
+        const result = outcome as { value: T } | { error: unknown };
+        if ('error' in result) throw result.error;
+        return result.value;
+    }
+
+    /** Emits an event on the manager's bus, then waits for the transitions it triggers. */
+    public async emitAndSettle<K extends FocusEventName<TEvents>>(eventName: K, ...payload: FocusPayloadArg<TEvents[K]>): Promise<void> {
+        (this.fm.events as FocusEventBus<TEvents>).emit(eventName, ...payload);
+        await this.settle();
+    }
+
+    /** Dispatches a keyboard event on the document, then waits for the transitions it triggers. */
+    public async pressKey(key: string, eventType: 'keydown' | 'keyup' | 'keypress' = 'keydown'): Promise<void> {
+        document.dispatchEvent(new KeyboardEvent(eventType, { key, bubbles: true, cancelable: true }));
+        await this.settle();
+    }
+
+    /**
+     * Asserts the state stack, bottom first.
+     * @param manager The manager to check, e.g. a region or `fm.child('game')`. Defaults to the harness's manager.
+     */
+    public expectStack(expected: readonly string[], manager: FocusManager<any, any> = this.fm): void {
+        const actual = manager.stateStack;
+        if (actual.length !== expected.length || actual.some((name, i) => name !== expected[i])) {
+            throw new FocusTestAssertionError(`Expected the stack of region '${manager.regionName}' to be [${expected.join(', ')}], but it is [${actual.join(', ')}].`);
+        }
+    }
+
+    /**
+     * Asserts that a UI layer exists and is shown, counting hidden parent layers.
+     * @param visible Pass false to assert that the layer is hidden instead.
+     */
+    public expectLayerVisible(layerName: string, visible = true): void {
+        const layer = this.fm.uiManager.get(layerName);
+        if (!layer) {
+            throw new FocusTestAssertionError(`Expected layer '${layerName}' to be ${visible ? 'visible' : 'hidden'}, but it does not exist.`);
+        }
+        let shown = true;
+        for (let element: HTMLElement | null = layer.element; element && element !== this.container; element = element.parentElement) {
+            if (element.style.display === 'none') shown = false;
+        }
+        if (shown !== visible) {
+            throw new FocusTestAssertionError(`Expected layer '${layerName}' to be ${visible ? 'visible' : 'hidden'}, but it is ${shown ? 'visible' : 'hidden'}.`);
+        }
+    }
+
+    /** Disposes the manager and the UI, restores the real timers and removes the runtime's containers. */
+    public async dispose(): Promise<void> {
+        this.fm.dispose();
+        try {
+            await this.settle();
+        } finally {
+            UILayerManager.getInstance().dispose();
+            this.clock.uninstall();
+            FocusTestRuntimeControl.teardown();
+        }
+    }
+}
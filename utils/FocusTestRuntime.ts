@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+
+/*
+ * A stand-in for the parts of the `rogue-engine` module the Focus Framework uses, so that state
+ * flows can run under Node and jsdom. Point the test runner's alias for `rogue-engine` at this
+ * file, e.g. with Jest: `moduleNameMapper: { '^rogue-engine$': '<rootDir>/Focus/utils/FocusTestRuntime.ts' }`.
+ * Nothing happens on its own: `FocusTestHarness` resets it and pumps its frames.
+ */
+
+type UpdateSubscription = { callback: (sceneController?: any) => void, stop: () => void };
+
+let nextFrameCallbacks: (() => void)[] = [];
+const updateSubscriptions = new Set<UpdateSubscription>();
+const prefabFactories = new Map<string, () => THREE.Object3D>();
+
+/** The in-memory runtime: a scene, a camera and the DOM containers the UI is attached to. */
+export class Runtime {
+    static uiContainer: HTMLElement;
+    static rogueDOMContainer: HTMLElement;
+    static scene: THREE.Scene;
+    static camera: THREE.Camera;
+    /** The duration of the last frame in seconds. */
+    static deltaTime = 0;
+}
+
+/** Calls the callback when the next frame is pumped. */
+export function onNextFrame(callback: () => void): void {
+    nextFrameCallbacks.push(callback);
+}
+
+/** Calls the callback on every pumped frame until `stop()` is called. */
+export function onUpdate(callback: (sceneController?: any) => void): { stop: () => void } {
+    const subscription: UpdateSubscription = { callback, stop: () => updateSubscriptions.delete(subscription) };
+    updateSubscriptions.add(subscription);
+    return subscription;
+}
+
+/** A fake prefab registry. Prefabs are registered by path with `FocusTestHarness.registerPrefab()`. */
+export class Prefab {
+    /** Maps every registered prefab path to a UUID, like the editor's generated list. */
+    static namedPrefabUUIDs: Record<string, string> = {};
+
+    private constructor(public readonly path: string) {}
+
+    static async fetch(path: string): Promise<Prefab> {
+        return Prefab.get(path);
+    }
+
+    static get(path: string): Prefab {
+        if (!prefabFactories.has(path)) throw new Error(`Prefab '${path}' is not registered.`);
+        return new Prefab(path);
+    }
+
+    /** Creates an instance with the registered factory and adds it to the scene. */
+    static async instantiate(path: string): Promise<THREE.Object3D> {
+        const factory = prefabFactories.get(path);
+        if (!factory) throw new Error(`Prefab '${path}' is not registered.`);
+        const instance = factory();
+        Runtime.scene.add(instance);
+        return instance;
+    }
+}
+
+export class Debug {
+    static log(message: string): void {
+        console.log(message);
+    }
+}
+
+export class Component {
+    object3d: THREE.Object3D = new THREE.Object3D();
+}
+
+/** Accepts component classes so that `.re.ts` files can be imported in tests. */
+export function registerComponent<T>(component: T): T {
+    return component;
+}
+
+/**
+ * Controls for `FocusTestHarness`. Not part of the `rogue-engine` API.
+ * @internal
+ */
+export const FocusTestRuntimeControl = {
+    /** Restores a blank runtime: new containers, an empty scene and no prefabs, frame callbacks or updates. */
+    reset(): void {
+        this.teardown();
+        Runtime.uiContainer = document.createElement('div');
+        Runtime.uiContainer.id = 'focus-test-ui-container';
+        Runtime.rogueDOMContainer = document.createElement('div');
+        Runtime.rogueDOMContainer.id = 'focus-test-dom-container';
+        Runtime.rogueDOMContainer.appendChild(Runtime.uiContainer);
+        document.body.appendChild(Runtime.rogueDOMContainer);
+        Runtime.scene = new THREE.Scene();
+        Runtime.camera = new THREE.PerspectiveCamera();
+        Runtime.scene.add(Runtime.camera);
+        Runtime.deltaTime = 0;
+    },
+
+    /** Removes the containers and forgets every callback and prefab. */
+    teardown(): void {
+        nextFrameCallbacks = [];
+        updateSubscriptions.clear();
+        prefabFactories.clear();
+        Prefab.namedPrefabUUIDs = {};
+        Runtime.rogueDOMContainer?.remove();
+    },
+
+    /**
+     * Runs one frame: the `onNextFrame` callbacks queued before it, then every `onUpdate` callback.
+     * @param deltaMs The frame duration, exposed as `Runtime.deltaTime`.
+     */
+    frame(deltaMs: number): void {
+        Runtime.deltaTime = deltaMs / 1000;
+        const callbacks = nextFrameCallbacks;
+        nextFrameCallbacks = [];
+        callbacks.forEach(callback => callback());
+        [...updateSubscriptions].forEach(subscription => subscription.callback());
+    },
+
+    /** The number of `onNextFrame` callbacks waiting for the next frame. */
+    get pendingFrameCallbacks(): number {
+        return nextFrameCallbacks.length;
+    },
+
+    registerPrefab(path: string, factory: () => THREE.Object3D): void {
+        prefabFactories.set(path, factory);
+        Prefab.namedPrefabUUIDs[path] = `focus-test-${Object.keys(Prefab.namedPrefabUUIDs).length}`;
+    },
+};
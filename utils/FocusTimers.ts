@@ -0,0 +1,158 @@
+import * as RE from 'rogue-engine';
+import type { FocusManager } from '../FocusManager';
+import { FMLog } from './FocusLogger';
+
+/** A timer created by `FocusTimerScheduler`. */
+export interface FocusTimer {
+    /** The state the timer belongs to, or null if it was created while no state was active. */
+    readonly state: string | null;
+    /** False once the timer has fired (for `after`) or was cancelled. */
+    readonly active: boolean;
+    /** Stops the timer. Safe to call more than once. */
+    cancel(): void;
+}
+
+interface ScheduledTimer extends FocusTimer {
+    active: boolean;
+    /** The stack index of the state instance the timer belongs to, so instances of the same state keep separate timers. */
+    depth: number;
+    intervalMs: number;
+    repeat: boolean;
+    elapsedMs: number;
+    callback: () => void;
+}
+
+/**
+ * Timers scoped to the lifecycle of a state, available as `FocusManager.timers`.
+ * A timer belongs to the state instance that is active when it is created. It only advances while
+ * that instance is on top of the stack, so it freezes while another state is pushed over it
+ * and picks up where it left off after `pop()`. Exiting the state cancels its timers.
+ *
+ * Time is measured with the Rogue Engine frame clock, so the timers also stop when the
+ * runtime is paused. Call `step()` to advance them by hand, e.g. in tests.
+ * @example
+ * fm.create('game').onEnter(() => {
+ *     fm.timers.every(1000, () => game.tick()); // No cleanup needed.
+ * });
+ */
+export class FocusTimerScheduler {
+    private timers: ScheduledTimer[] = [];
+    private updateSubscription: { stop: () => void } | null = null;
+
+    constructor(private focusManager: FocusManager<any, any>) {}
+
+    /** The number of timers that have not fired or been cancelled yet. */
+    public get size(): number {
+        return this.timers.length;
+    }
+
+    /**
+     * Calls the callback once, after the owning state has been on top of the stack for `delayMs`.
+     * @param delayMs The delay in milliseconds.
+     * @param callback The function to call.
+     * @returns The timer, which can be cancelled early.
+     */
+    public after(delayMs: number, callback: () => void): FocusTimer {
+        return this.schedule(delayMs, false, callback);
+    }
+
+    /**
+     * Calls the callback every `intervalMs` while the owning state is on top of the stack,
+     * until the state exits or the timer is cancelled.
+     * @param intervalMs The interval in milliseconds.
+     * @param callback The function to call.
+     * @returns The timer, which can be cancelled early.
+     */
+    public every(intervalMs: number, callback: () => void): FocusTimer {
+        return this.schedule(intervalMs, true, callback);
+    }
+
+    /**
+     * Advances every running timer and calls the callbacks that are due.
+     * This is called once per frame with the runtime's delta time.
+     * @param deltaMs The time that has passed, in milliseconds.
+     */
+    public step(deltaMs: number): void {
+        if (this.focusManager.isSuspended) return; // A child machine whose owning state is covered
+        const top = this.focusManager.stateStack.length - 1;
+
+        for (const timer of [...this.timers]) {
+            if (!timer.active) continue;
+            if (timer.state !== null && timer.depth !== top) continue; // Covered by a pushed state
+
+            timer.elapsedMs += deltaMs;
+            while (timer.active && timer.elapsedMs >= timer.intervalMs) {
+                timer.elapsedMs -= timer.intervalMs;
+                if (!timer.repeat) timer.cancel();
+                try {
+                    timer.callback();
+                } catch (e) {
+                    FMLog.log('error', `Error in timer of state '${timer.state}'.`, e);
+                }
+                if (timer.intervalMs <= 0) break; // Fire zero-interval timers at most once per step.
+            }
+        }
+    }
+
+    /**
+     * Cancels every timer belonging to the state at a stack index. Called by `FocusManager` when the state exits.
+     * @internal
+     */
+    public cancelEntry(depth: number): void {
+        for (const timer of [...this.timers]) {
+            if (timer.state !== null && timer.depth === depth) timer.cancel();
+        }
+    }
+
+    /**
+     * Follows a state that moved from one stack index to the top, shifting the states above it down.
+     * Called by `FocusManager` when a state already on the stack is pushed again.
+     * @internal
+     */
+    public moveEntryToTop(depth: number, topDepth: number): void {
+        for (const timer of this.timers) {
+            if (timer.state === null) continue;
+            if (timer.depth === depth) timer.depth = topDepth;
+            else if (timer.depth > depth) timer.depth--;
+        }
+    }
+
+    /** Cancels every timer, regardless of its state. */
+    public cancelAll(): void {
+        for (const timer of [...this.timers]) {
+            timer.cancel();
+        }
+    }
+
+    private schedule(intervalMs: number, repeat: boolean, callback: () => void): FocusTimer {
+        const timer: ScheduledTimer = {
+            state: this.focusManager.current,
+            depth: this.focusManager.stateStack.length - 1,
+            active: true,
+            intervalMs: Math.max(0, intervalMs),
+            repeat,
+            elapsedMs: 0,
+            callback,
+            cancel: () => {
+                if (!timer.active) return;
+                timer.active = false;
+                this.timers.splice(this.timers.indexOf(timer), 1);
+                if (this.timers.length === 0) this.stopClock();
+            },
+        };
+
+        this.timers.push(timer);
+        this.startClock();
+        return timer;
+    }
+
+    private startClock() {
+        if (this.updateSubscription) return;
+        this.updateSubscription = RE.onUpdate(() => this.step(RE.Runtime.deltaTime * 1000));
+    }
+
+    private stopClock() {
+        this.updateSubscription?.stop();
+        this.updateSubscription = null;
+    }
+}
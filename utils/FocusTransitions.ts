@@ -0,0 +1,356 @@
+import { FocusManager } from '../FocusManager';
+import type { FocusTransitionContext, FocusTransitionEffect } from '../FocusManager';
+import { FMLog } from './FocusLogger';
+
+/** The direction a wipe or slide travels in. */
+export type FocusTransitionDirection = 'left' | 'right' | 'up' | 'down';
+
+/** A point in viewport pixels, e.g. a click event's `clientX` and `clientY`. */
+export interface FocusTransitionPoint {
+    x: number;
+    y: number;
+}
+
+/** Parameters of the built-in effects. */
+export interface FocusColorParams {
+    /** The CSS color the screen is covered with. Defaults to 'black', or 'white' for 'flash'. */
+    color?: string;
+    /** A CSS easing function, e.g. 'ease-in' or 'cubic-bezier(0.2, 0, 0, 1)'. The block effects only know the keywords. */
+    easing?: string;
+}
+
+export interface FocusWipeParams extends FocusColorParams {
+    /** The direction the edge travels in. Defaults to 'right'. */
+    direction?: FocusTransitionDirection;
+}
+
+export interface FocusIrisParams extends FocusColorParams {
+    /** The center of the circle: a point, or an element whose center is used, like the clicked button. Defaults to the center of the screen. */
+    origin?: FocusTransitionPoint | Element | null;
+}
+
+export interface FocusBlocksParams extends FocusColorParams {
+    /** The size of one block in pixels. Defaults to 6 for 'dissolve' and 40 for 'pixelate'. */
+    blockSize?: number;
+}
+
+/**
+ * Maps the name of each registered effect to the parameters `withTransition()` accepts for it.
+ * Declare the parameters of a custom effect by augmenting it:
+ * @example
+ * declare module './rogue_packages/FocusFramework/utils/FocusTransitions' {
+ *     interface FocusTransitionParamsMap { curtain: { folds?: number } }
+ * }
+ */
+export interface FocusTransitionParamsMap {
+    none: {};
+    fade: FocusColorParams;
+    wipe: FocusWipeParams;
+    'wipe-left': FocusWipeParams;
+    'wipe-right': FocusWipeParams;
+    'wipe-up': FocusWipeParams;
+    'wipe-down': FocusWipeParams;
+    iris: FocusIrisParams;
+    slide: FocusWipeParams;
+    dissolve: FocusBlocksParams;
+    pixelate: FocusBlocksParams;
+    flash: FocusColorParams;
+}
+
+/** The parameters of an effect: as declared in `FocusTransitionParamsMap`, or anything for an undeclared one. */
+export type FocusTransitionParams<E extends string = string> = E extends keyof FocusTransitionParamsMap ? FocusTransitionParamsMap[E] : Record<string, any>;
+
+/** An effect, or the name of a registered one, to build a combined effect from. Names are looked up when the effect plays. */
+export type FocusTransitionStep = FocusTransitionEffect<any> | string;
+
+const FRAME_MS = 16;
+const TILE_CELLS = 16; // The block effects repeat a tile of 16 x 16 blocks
+
+const EASINGS: Record<string, (t: number) => number> = {
+    'linear': t => t,
+    'ease-in': t => t * t,
+    'ease-out': t => 1 - (1 - t) * (1 - t),
+    'ease-in-out': t => t * t * (3 - 2 * t),
+    'ease': t => t * t * (3 - 2 * t),
+};
+
+// For each direction, the side a wipe grows from and the side it leaves through, as an index into inset()'s top, right, bottom, left.
+const WIPE_SIDES: Record<FocusTransitionDirection, [number, number]> = { right: [1, 3], left: [3, 1], down: [2, 0], up: [0, 2] };
+const SLIDE_VECTORS: Record<FocusTransitionDirection, [number, number]> = { right: [1, 0], left: [-1, 0], down: [0, 1], up: [0, -1] };
+
+/**
+ * A full-screen, transparent element for an effect to draw on.
+ * @internal Created by `FocusManager` for every transition, and by the combinators for each of their steps.
+ */
+export function createTransitionSurface(): HTMLDivElement {
+    const surface = document.createElement('div');
+    surface.className = 'focus-transition-surface';
+    surface.style.cssText = 'position: absolute; top: 0; left: 0; width: 100%; height: 100%; pointer-events: none;';
+    return surface;
+}
+
+function nextPaint(): Promise<void> {
+    return new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Applies `from`, then lets the browser transition `property` to `to` and waits for it to end. */
+async function animate(surface: HTMLElement, property: string, from: Partial<CSSStyleDeclaration>, to: Partial<CSSStyleDeclaration>, durationMs: number, easing: string): Promise<void> {
+    surface.style.transition = 'none';
+    Object.assign(surface.style, from);
+    await nextPaint(); // Wait for the start styles to apply
+    surface.style.transition = `${property} ${durationMs}ms ${easing}`;
+    Object.assign(surface.style, to);
+    await wait(durationMs);
+}
+
+function wipeInset(side: number | null): string {
+    const insets = ['0', '0', '0', '0'];
+    if (side !== null) insets[side] = '100%';
+    return `inset(${insets.join(' ')})`;
+}
+
+function slideTransform(direction: FocusTransitionDirection, sign: number): string {
+    const [x, y] = SLIDE_VECTORS[direction];
+    return `translate(${x * sign * 100}%, ${y * sign * 100}%)`;
+}
+
+/** A circle around the origin, with a radius that reaches the farthest corner of the screen at `fraction` 1. */
+function irisCircle(origin: FocusIrisParams['origin'], fraction: number): string {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+    let center = { x: width / 2, y: height / 2 };
+    if (origin && typeof (origin as Element).getBoundingClientRect === 'function') {
+        const rect = (origin as Element).getBoundingClientRect();
+        center = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    } else if (origin) {
+        center = origin as FocusTransitionPoint;
+    }
+    const radius = Math.hypot(Math.max(center.x, width - center.x), Math.max(center.y, height - center.y));
+    return `circle(${Math.ceil(radius * fraction)}px at ${center.x}px ${center.y}px)`;
+}
+
+function setMask(surface: HTMLElement, image: string | null): void {
+    for (const property of ['mask-image', '-webkit-mask-image']) {
+        image === null ? surface.style.removeProperty(property) : surface.style.setProperty(property, image);
+    }
+}
+
+/** An SVG mask of one tile that shows the given blocks. */
+function blockMask(cells: number[]): string {
+    const rects = cells.map(cell => `<rect x='${cell % TILE_CELLS}' y='${Math.floor(cell / TILE_CELLS)}' width='1' height='1'/>`).join('');
+    const svg = `<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 ${TILE_CELLS} ${TILE_CELLS}' preserveAspectRatio='none' shape-rendering='crispEdges'>${rects}</svg>`;
+    return `url("data:image/svg+xml,${encodeURIComponent(svg)}")`;
+}
+
+/** Shows or hides the blocks of the surface in random order, one frame at a time. */
+async function animateBlocks(surface: HTMLElement, params: Required<FocusBlocksParams>, durationMs: number, covering: boolean): Promise<void> {
+    const order = Array.from({ length: TILE_CELLS * TILE_CELLS }, (_, cell) => cell);
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    const tilePx = TILE_CELLS * Math.max(1, params.blockSize);
+    for (const prefix of ['', '-webkit-']) {
+        surface.style.setProperty(`${prefix}mask-size`, `${tilePx}px ${tilePx}px`);
+        surface.style.setProperty(`${prefix}mask-repeat`, 'repeat');
+    }
+
+    const ease = EASINGS[params.easing] ?? EASINGS['ease-in-out'];
+    const start = performance.now();
+    let shown = -1;
+    for (;;) {
+        const t = durationMs > 0 ? Math.min(1, (performance.now() - start) / durationMs) : 1;
+        const count = Math.round((covering ? ease(t) : 1 - ease(t)) * order.length);
+        if (count !== shown) {
+            shown = count;
+            setMask(surface, blockMask(order.slice(0, count)));
+        }
+        if (t >= 1) break;
+        await wait(FRAME_MS);
+    }
+    if (covering) setMask(surface, null); // Fully covered
+}
+
+function blocksEffect(blockSize: number): FocusTransitionEffect<Required<FocusBlocksParams>> {
+    return {
+        defaults: { color: 'black', easing: 'linear', blockSize },
+        onExit: async (from, to, durationMs, { surface, params }) => {
+            surface.style.background = params.color;
+            await animateBlocks(surface, params, durationMs, true);
+        },
+        onEnter: async (current, previous, durationMs, { surface, params }) => {
+            surface.style.background = params.color;
+            await animateBlocks(surface, params, durationMs, false);
+        },
+    };
+}
+
+/** Fades to a color and back. */
+export const fadeEffect: FocusTransitionEffect<Required<FocusColorParams>> = {
+    defaults: { color: 'black', easing: 'ease-in-out' },
+    onExit: async (from, to, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'opacity', { opacity: '0' }, { opacity: '1' }, durationMs, params.easing);
+    },
+    onEnter: async (current, previous, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'opacity', { opacity: '1' }, { opacity: '0' }, durationMs, params.easing);
+    },
+};
+
+/** Covers the screen with an edge that travels in `direction`, then uncovers it in the same direction. */
+export const wipeEffect: FocusTransitionEffect<Required<FocusWipeParams>> = {
+    defaults: { color: 'black', easing: 'ease-in-out', direction: 'right' },
+    onExit: async (from, to, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'clip-path', { clipPath: wipeInset(WIPE_SIDES[params.direction][0]) }, { clipPath: wipeInset(null) }, durationMs, params.easing);
+    },
+    onEnter: async (current, previous, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'clip-path', { clipPath: wipeInset(null) }, { clipPath: wipeInset(WIPE_SIDES[params.direction][1]) }, durationMs, params.easing);
+    },
+};
+
+/** Closes a circle around `origin`, then opens it again. */
+export const irisEffect: FocusTransitionEffect<Required<FocusIrisParams>> = {
+    defaults: { color: 'black', easing: 'ease-in-out', origin: null },
+    onExit: async (from, to, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'clip-path', { clipPath: irisCircle(params.origin, 0) }, { clipPath: irisCircle(params.origin, 1) }, durationMs, params.easing);
+    },
+    onEnter: async (current, previous, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'clip-path', { clipPath: irisCircle(params.origin, 1) }, { clipPath: irisCircle(params.origin, 0) }, durationMs, params.easing);
+    },
+};
+
+/** Slides a panel over the screen in `direction`, then slides it out the other side. */
+export const slideEffect: FocusTransitionEffect<Required<FocusWipeParams>> = {
+    defaults: { color: 'black', easing: 'ease-in-out', direction: 'right' },
+    onExit: async (from, to, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'transform', { transform: slideTransform(params.direction, -1) }, { transform: slideTransform(params.direction, 0) }, durationMs, params.easing);
+    },
+    onEnter: async (current, previous, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'transform', { transform: slideTransform(params.direction, 0) }, { transform: slideTransform(params.direction, 1) }, durationMs, params.easing);
+    },
+};
+
+/** Covers the screen in small blocks, in random order, through a CSS mask. */
+export const dissolveEffect = blocksEffect(6);
+
+/** Covers the screen in large blocks, in random order, through a CSS mask. */
+export const pixelateEffect = blocksEffect(40);
+
+/** Flashes to a color in a quarter of the duration, then fades out over the whole duration. */
+export const flashEffect: FocusTransitionEffect<Required<FocusColorParams>> = {
+    defaults: { color: 'white', easing: 'ease-out' },
+    onExit: async (from, to, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'opacity', { opacity: '0' }, { opacity: '1' }, Math.round(durationMs / 4), 'ease-in');
+    },
+    onEnter: async (current, previous, durationMs, { surface, params }) => {
+        surface.style.background = params.color;
+        await animate(surface, 'opacity', { opacity: '1' }, { opacity: '0' }, durationMs, params.easing);
+    },
+};
+
+function resolveStep(step: FocusTransitionStep): FocusTransitionEffect | null {
+    if (typeof step !== 'string') return step;
+    const effect = FocusManager.getRegisteredTransitionEffect(step);
+    if (!effect) FMLog.log('warn', `Transition effect '${step}' not found.`);
+    return effect ?? null;
+}
+
+/** The context for one step of a combined effect: its own surface, its share of the duration and its defaults under the transition's parameters. */
+function stepContext(context: FocusTransitionContext, effect: FocusTransitionEffect, surface: HTMLElement, durationMs: number): FocusTransitionContext {
+    return { ...context, durationMs, surface, params: { ...effect.defaults, ...context.params } };
+}
+
+// The surfaces of a combined effect's steps, kept from its exit to its enter.
+const stepSurfaces = new WeakMap<HTMLElement, HTMLElement[]>();
+
+/** One surface per step inside the combined effect's own, later steps on top. */
+function surfacesFor(surface: HTMLElement, count: number): HTMLElement[] {
+    let surfaces = stepSurfaces.get(surface);
+    if (!surfaces) {
+        surfaces = Array.from({ length: count }, () => surface.appendChild(createTransitionSurface()));
+        stepSurfaces.set(surface, surfaces);
+    }
+    return surfaces;
+}
+
+/**
+ * Combines effects that play one after another, each for an equal share of the duration.
+ * They cover the screen in order and uncover it in reverse, each on its own surface.
+ * @example
+ * FocusManager.registerTransitionEffect('flash-fade', sequence(withParams('flash', { color: 'red' }), 'fade'));
+ */
+export function sequence(...steps: FocusTransitionStep[]): FocusTransitionEffect {
+    return {
+        onExit: async (from, to, durationMs, context) => {
+            const surfaces = surfacesFor(context.surface, steps.length);
+            const shareMs = durationMs / steps.length;
+            for (let i = 0; i < steps.length; i++) {
+                const effect = resolveStep(steps[i]);
+                if (effect) await effect.onExit(from, to, shareMs, stepContext(context, effect, surfaces[i], shareMs));
+            }
+        },
+        onEnter: async (current, previous, durationMs, context) => {
+            const surfaces = surfacesFor(context.surface, steps.length);
+            const shareMs = durationMs / steps.length;
+            for (let i = steps.length - 1; i >= 0; i--) {
+                const effect = resolveStep(steps[i]);
+                if (effect) await effect.onEnter(current, previous, shareMs, stepContext(context, effect, surfaces[i], shareMs));
+            }
+        },
+    };
+}
+
+/**
+ * Combines effects that play at the same time, each on its own surface and for the whole duration.
+ * @example
+ * FocusManager.registerTransitionEffect('iris-fade', parallel('iris', withParams('fade', { color: 'white' })));
+ */
+export function parallel(...steps: FocusTransitionStep[]): FocusTransitionEffect {
+    const play = (context: FocusTransitionContext, durationMs: number, run: (effect: FocusTransitionEffect, context: FocusTransitionContext) => Promise<void>) => {
+        const surfaces = surfacesFor(context.surface, steps.length);
+        return Promise.all(steps.map((step, i) => {
+            const effect = resolveStep(step);
+            return effect ? run(effect, stepContext(context, effect, surfaces[i], durationMs)) : undefined;
+        })).then(() => undefined);
+    };
+    return {
+        onExit: (from, to, durationMs, context) => play(context, durationMs, (effect, stepContext) => effect.onExit(from, to, durationMs, stepContext)),
+        onEnter: (current, previous, durationMs, context) => play(context, durationMs, (effect, stepContext) => effect.onEnter(current, previous, durationMs, stepContext)),
+    };
+}
+
+/**
+ * An effect with some of its parameters preset, e.g. `withParams('wipe', { direction: 'left' })`.
+ * Parameters given with the transition still take precedence.
+ */
+export function withParams<E extends string>(step: E, params: FocusTransitionParams<E>): FocusTransitionEffect;
+export function withParams<P>(step: FocusTransitionEffect<P>, params: Partial<P>): FocusTransitionEffect<P>;
+export function withParams(step: FocusTransitionStep, params: Record<string, any>): FocusTransitionEffect {
+    const inner = (context: FocusTransitionContext): [FocusTransitionEffect | null, FocusTransitionContext] => {
+        const effect = resolveStep(step);
+        return [effect, { ...context, params: { ...effect?.defaults, ...context.params } }];
+    };
+    return {
+        defaults: params,
+        onExit: async (from, to, durationMs, context) => {
+            const [effect, effectContext] = inner(context);
+            await effect?.onExit(from, to, durationMs, effectContext);
+        },
+        onEnter: async (current, previous, durationMs, context) => {
+            const [effect, effectContext] = inner(context);
+            await effect?.onEnter(current, previous, durationMs, effectContext);
+        },
+    };
+}